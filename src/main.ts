@@ -1,10 +1,36 @@
-import { MarkdownView, Plugin, Notice, Editor, EditorPosition } from 'obsidian';
-import { hackToRerender } from './utils/editorUtils';
+import { MarkdownView, Menu, Plugin, Notice, Editor, EditorPosition, Component, MarkdownRenderer, TFile, editorInfoField, getFrontMatterInfo, normalizePath, setTooltip } from 'obsidian';
+import { getEditorView, hackToRerender } from './utils/editorUtils';
 import { TextInputModal } from './modals/TextInputModal';
+import { ExportResolvedModal, ExportResolvedOptions } from './modals/ExportResolvedModal';
+import { MigrateDelimitersModal } from './modals/MigrateDelimitersModal';
+import { CommitFolderModal, CommitFolderOptions } from './modals/CommitFolderModal';
+import { VariantSetModal } from './modals/VariantSetModal';
+import { ArchiveModal } from './modals/ArchiveModal';
+import { CompareOptionsModal } from './modals/CompareOptionsModal';
+import { UnresolvedReportModal } from './modals/UnresolvedReportModal';
+import { VIEW_TYPE_VARIANT_OUTLINE, VariantOutlineView } from './views/VariantOutlineView';
+import { createVariantPostProcessor } from './postProcessors/variantPostProcessor';
+import { DEFAULT_DELIMITERS, Variant, VariantAttributes, VariantDelimiters, getActiveDelimiters, getActiveOption, parseVariant, parseVariants, resolveVariantList, serializeVariant, setActiveDelimiters } from './utils/variantSyntax';
+import { createOptionChooser } from './utils/resolveRules';
+import { createBackup, restoreLatestBackup } from './utils/backupUtils';
+import { VariantOccurrence, getMarkdownFilesIn, parseNoteVariants, scanVariants } from './utils/vaultUtils';
+import { applyVariantSet, collectVariantSets, getVariantSetChanges } from './utils/variantSets';
+import { ArchiveEntry, ArchiveReason, appendToArchive, readArchive } from './utils/archiveUtils';
+import { countVariantText } from './utils/textStats';
+import { previewText } from './utils/preview';
+import { chooseByGroup, createGroupName, findGroupMembers, getVariantGroup } from './utils/variantGroups';
+import { TrackedRange, getTrackedVariants, replaceTrackedVariants, setTrackedVariants, trackedVariantField } from './utils/trackedVariant';
+import { getChangedLines, parseBlockVariants, updateBlockVariants } from './utils/incrementalParse';
+import { changesCodeOrMath, isInCodeOrMath, parseEditorVariants } from './utils/syntaxContext';
+import { DEFAULT_SETTINGS, VariantEditorSettings, VariantEditorSettingTab } from './settings';
 
 // Import CodeMirror modules directly as per Obsidian documentation
 import { ViewUpdate, PluginValue, EditorView, ViewPlugin, Decoration, DecorationSet, WidgetType } from '@codemirror/view';
-import { RangeSetBuilder, StateField, Extension } from '@codemirror/state';
+import { RangeSetBuilder, StateField, Extension, EditorState, Range } from '@codemirror/state';
+import { foldService, syntaxTree, syntaxTreeAvailable } from '@codemirror/language';
+
+// Longest option text shown in the option picker before it's cut off
+const MAX_PICKER_OPTION_LENGTH = 60;
 
 /**
  * Widget that renders a clickable variant text
@@ -12,12 +38,12 @@ import { RangeSetBuilder, StateField, Extension } from '@codemirror/state';
  */
 class ClickableVariantWidget extends WidgetType {
   constructor(
-    private plugin: VariantEditor,
-    private text: string,
-    private fullVariant: string,
-    private variantIndex: string,
-    private from: number,
-    private to: number
+    protected plugin: VariantEditor,
+    protected text: string,
+    protected fullVariant: string,
+    protected variantIndex: string,
+    // The note attached to the active option, shown on hover
+    protected annotation: string = ''
   ) {
     super();
   }
@@ -29,56 +55,41 @@ class ClickableVariantWidget extends WidgetType {
     span.setAttribute('data-full-variant', this.fullVariant);
     span.setAttribute('data-variant-index', this.variantIndex);
 
-    // Add click handler
-    span.addEventListener('click', (e) => {
+    this.addClickHandler(span, view);
+    this.addAnnotation(span);
+
+    return span;
+  }
+
+  /**
+   * Shows the note of the active option in a tooltip
+   */
+  protected addAnnotation(el: HTMLElement): void {
+    if (!this.annotation) return;
+    el.addClass('has-annotation');
+    setTooltip(el, this.annotation, { placement: 'top' });
+  }
+
+  /**
+   * Shows the options of the variant, or opens the variant editor on it, when the element is clicked
+   */
+  protected addClickHandler(el: HTMLElement, view: EditorView): void {
+    el.addEventListener('click', (e) => {
       e.preventDefault();
       e.stopPropagation();
 
-      // Instead of using potentially stale positions, find the variant in the current document
-      const state = view.state;
-      const doc = state.doc;
-      const docText = doc.toString();
-      
-      // Find the variant pattern in the document
-      const variantRegex = new RegExp(this.fullVariant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-      let match;
-      let variantFound = false;
-      
-      while ((match = variantRegex.exec(docText)) !== null) {
-        const matchStart = match.index;
-        const matchEnd = matchStart + match[0].length;
-        
-        // Check if this match is around the expected position (within reasonable range)
-        if (Math.abs(matchStart - this.from) < 100) { // Allow some drift
-          // Set the selection to the entire variant
-          view.dispatch({
-            selection: { anchor: matchStart, head: matchEnd }
-          });
-          
-          variantFound = true;
-          break;
-        }
-      }
-      
-      if (!variantFound) {
-        // Fallback: try to use original positions but validate they're reasonable
-        if (this.from >= 0 && this.to <= doc.length && this.from < this.to) {
-          view.dispatch({
-            selection: { anchor: this.from, head: this.to }
-          });
-          variantFound = true;
-        }
-      }
-      
-      if (variantFound) {
-        // Call the highlightSelection method
-        this.plugin.highlightSelection();
-      } else {
+      // The widget may have been drawn before later edits, so ask the view where it is now
+      const pos = view.posAtDOM(el);
+      const variant = parseEditorVariants(view.state).find(v => v.from <= pos && pos < v.to);
+
+      if (!variant) {
         console.warn('Could not find variant in document:', this.fullVariant);
+      } else if (this.plugin.settings.showOptionPicker) {
+        this.plugin.showOptionPicker(view, variant, el);
+      } else {
+        this.plugin.editVariant(view, variant);
       }
     });
-
-    return span;
   }
 
   eq(other: ClickableVariantWidget): boolean {
@@ -88,19 +99,73 @@ class ClickableVariantWidget extends WidgetType {
   }
 }
 
+/**
+ * Widget that renders the active option of a block variant as markdown
+ * Clicking on it behaves like clicking an inline variant
+ */
+class BlockVariantWidget extends ClickableVariantWidget {
+  private component: Component | null = null;
+
+  constructor(
+    plugin: VariantEditor,
+    text: string,
+    fullVariant: string,
+    variantIndex: string,
+    private sourcePath: string,
+    annotation: string = ''
+  ) {
+    super(plugin, text, fullVariant, variantIndex, annotation);
+  }
+
+  toDOM(view: EditorView): HTMLElement {
+    const div = document.createElement('div');
+    div.className = 'variant-active-option variant-block clickable-variant';
+    div.setAttribute('data-full-variant', this.fullVariant);
+    div.setAttribute('data-variant-index', this.variantIndex);
+
+    // Each widget owns its render component so it can be cleaned up with the DOM
+    this.component = new Component();
+    this.component.load();
+    MarkdownRenderer.render(this.plugin.app, this.text, div, this.sourcePath, this.component)
+      .catch(e => console.error('Error rendering block variant:', e));
+
+    this.addClickHandler(div, view);
+    this.addAnnotation(div);
+
+    return div;
+  }
+
+  destroy(dom: HTMLElement): void {
+    this.component?.unload();
+    this.component = null;
+  }
+}
+
 export default class VariantEditor extends Plugin {
+  settings: VariantEditorSettings;
+
+  // Status bar word count of the active options
+  private wordCountEl: HTMLElement;
+  private wordCountTimeout: number | null = null;
+
+  // Pending updates of the unresolved variant count property, by note path
+  private variantCountTimeouts = new Map<string, number>();
+  // Notes whose count is updated once they're no longer being edited
+  private deferredVariantCounts = new Set<string>();
+
   // Track active line for dimming - now per editor
   private activeEditorDimming = new Map<EditorView, {
     activeLine: number | null;
     selectedText: string | null;
-    selectionFrom: number | null;
-    selectionTo: number | null;
     previousCursorLine: number | null;
     dimExtension: Extension | null;
   }>();
 
   async onload() {
     try {
+      await this.loadSettings();
+      this.addSettingTab(new VariantEditorSettingTab(this.app, this));
+
       // Bind the method to ensure proper 'this' context
       this.highlightSelection = this.highlightSelection.bind(this);
       this.clearHighlight = this.clearHighlight.bind(this);
@@ -115,17 +180,18 @@ export default class VariantEditor extends Plugin {
       // Register the right-click context menu for creating variants
       this.registerEvent(
         this.app.workspace.on("editor-menu", (menu, editor, view) => {
+          if (!this.settings.showContextMenu) return;
+
           // Only show menu item if text is selected
-          const selection = editor.listSelections()[0];
-          const hasSelection = selection && (
+          const selectionCount = editor.listSelections().filter(selection =>
             selection.anchor.line !== selection.head.line ||
             selection.anchor.ch !== selection.head.ch
-          );
+          ).length;
           
-          if (hasSelection) {
+          if (selectionCount > 0) {
             menu.addItem((item) => {
               item
-                .setTitle("Create variant from selection")
+                .setTitle(selectionCount > 1 ? "Create linked variants from selections" : "Create variant from selection")
                 .setIcon("lucide-banana")
                 .onClick(() => {
                   this.highlightSelection();
@@ -149,9 +215,170 @@ export default class VariantEditor extends Plugin {
         editorCallback: (editor) => this.commitAllVariants(editor)
       });
 
+      // Register commands to commit variants across a folder and to undo it
+      this.addCommand({
+        id: 'variant-editor-commit-folder',
+        name: 'Commit all variants in folder/vault',
+        callback: () => {
+          const folderPath = this.app.workspace.getActiveFile()?.parent?.path ?? '';
+          new CommitFolderModal(this.app, folderPath === '/' ? '' : folderPath, (files, options) => this.commitVariantsInFiles(files, options)).open();
+        }
+      });
+
+      this.addCommand({
+        id: 'variant-editor-restore-backup',
+        name: 'Restore notes from last commit backup',
+        callback: () => this.restoreCommitBackup()
+      });
+
+      // Register command to find the variants still left in the vault
+      this.addCommand({
+        id: 'variant-editor-unresolved-report',
+        name: 'Find unresolved variants in vault',
+        callback: () => {
+          new UnresolvedReportModal(this.app, '', (file, occurrence) => this.openOccurrence(file, occurrence)).open();
+        }
+      });
+
+      // Register command to export a copy of the note with all variants resolved
+      this.addCommand({
+        id: 'variant-editor-export-resolved',
+        name: 'Export note with variants resolved',
+        checkCallback: (checking) => {
+          const file = this.app.workspace.getActiveFile();
+          if (!file || file.extension !== 'md') return false;
+
+          if (!checking) {
+            new ExportResolvedModal(this.app, file, (options) => this.exportResolvedCopy(file, options)).open();
+          }
+          return true;
+        }
+      });
+
+      // Register command to rewrite notes from one delimiter scheme to another
+      this.addCommand({
+        id: 'variant-editor-migrate-delimiters',
+        name: 'Migrate variant delimiters',
+        callback: () => {
+          new MigrateDelimitersModal(this.app, DEFAULT_DELIMITERS, this.settings.delimiters, async (to, updateSettings) => {
+            if (updateSettings) {
+              this.settings.delimiters = { ...to };
+              await this.saveSettings();
+            }
+          }).open();
+        }
+      });
+
+      // Register commands to jump between the variants of a note
+      this.addCommand({
+        id: 'variant-editor-next-variant',
+        name: 'Go to next variant',
+        editorCallback: (editor) => this.goToVariant(editor, 1)
+      });
+
+      this.addCommand({
+        id: 'variant-editor-previous-variant',
+        name: 'Go to previous variant',
+        editorCallback: (editor) => this.goToVariant(editor, -1)
+      });
+
+      // Register commands to flip through the options of the variant under the cursor
+      this.addCommand({
+        id: 'variant-editor-next-option',
+        name: 'Switch to next option',
+        editorCallback: (editor) => this.cycleActiveOption(editor, 1)
+      });
+
+      this.addCommand({
+        id: 'variant-editor-previous-option',
+        name: 'Switch to previous option',
+        editorCallback: (editor) => this.cycleActiveOption(editor, -1)
+      });
+
+      // Register command to read every option of a variant in context
+      this.addCommand({
+        id: 'variant-editor-compare-options',
+        name: 'Compare variants in context',
+        editorCallback: (editor, ctx) => this.compareOptions(editor, ctx.file)
+      });
+
+      // Register commands to switch every variant to a named set, such as "formal" or "casual"
+      this.addCommand({
+        id: 'variant-editor-activate-set',
+        name: 'Activate variant set in note',
+        editorCallback: (editor) => this.activateSetInEditor(editor)
+      });
+
+      this.addCommand({
+        id: 'variant-editor-activate-set-folder',
+        name: 'Activate variant set in folder',
+        callback: () => {
+          const folderPath = this.app.workspace.getActiveFile()?.parent?.path ?? '';
+          this.activateSetInFolder(folderPath === '/' ? '' : folderPath);
+        }
+      });
+
+      // Register command to bring back options from the archive
+      this.addCommand({
+        id: 'variant-editor-browse-archive',
+        name: 'Restore variant from archive',
+        editorCallback: (editor) => this.browseArchive(editor)
+      });
+
+      // Register the variant outline sidebar
+      this.registerView(VIEW_TYPE_VARIANT_OUTLINE, (leaf) => new VariantOutlineView(leaf, this));
+
+      this.addCommand({
+        id: 'variant-editor-open-outline',
+        name: 'Open variant outline',
+        callback: () => this.activateOutlineView()
+      });
+
+      // Keep the unresolved variant count property of notes up to date
+      this.registerEvent(this.app.vault.on('modify', (file) => {
+        if (file instanceof TFile && file.extension === 'md' && this.settings.trackOpenVariants) {
+          this.scheduleVariantCountUpdate(file);
+        }
+      }));
+
+      // Catch up on notes that were skipped while they were being edited
+      this.registerEvent(this.app.workspace.on('active-leaf-change', () => {
+        const activePath = this.app.workspace.getActiveFile()?.path;
+        this.deferredVariantCounts.forEach(path => {
+          const file = this.app.vault.getAbstractFileByPath(path);
+          if (path !== activePath && file instanceof TFile) {
+            this.deferredVariantCounts.delete(path);
+            this.scheduleVariantCountUpdate(file);
+          }
+        });
+      }));
+
+      this.addCommand({
+        id: 'variant-editor-update-variant-counts',
+        name: 'Update unresolved variant counts',
+        callback: () => this.updateAllVariantCounts()
+      });
+
+      // Count only the active options in the status bar, following the selection
+      this.wordCountEl = this.addStatusBarItem();
+      this.wordCountEl.addClass('variant-editor-word-count');
+      this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.scheduleWordCountUpdate()));
+      this.registerEditorExtension(EditorView.updateListener.of((update) => {
+        if (update.docChanged || update.selectionSet) {
+          this.scheduleWordCountUpdate();
+        }
+      }));
+      this.scheduleWordCountUpdate();
+
       // Register the editor extensions
+      this.registerEditorExtension(trackedVariantField);
       this.registerEditorExtension(this.createVariantIndicatorExtension());
       this.registerEditorExtension(this.createGlobalDimExtension());
+
+      // Render only the active option in Reading view, embeds and PDF exports
+      this.registerMarkdownPostProcessor(createVariantPostProcessor(this.app, {
+        showAlternatives: () => this.settings.showReadingTooltips
+      }));
     } catch (e) {
       console.error('Error during initialization:', e);
     }
@@ -161,6 +388,144 @@ export default class VariantEditor extends Plugin {
     this.clearHighlight();
     // Clean up all editor-specific dimming
     this.activeEditorDimming.clear();
+    document.body.style.removeProperty('--variant-editor-dim-opacity');
+    if (this.wordCountTimeout !== null) {
+      window.clearTimeout(this.wordCountTimeout);
+    }
+    this.variantCountTimeouts.forEach(timeout => window.clearTimeout(timeout));
+    this.variantCountTimeouts.clear();
+  }
+
+  async loadSettings() {
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Copy nested settings so the defaults are never modified
+    this.settings.delimiters = Object.assign({}, DEFAULT_DELIMITERS, this.settings.delimiters);
+    this.applySettings();
+  }
+
+  async saveSettings() {
+    await this.saveData(this.settings);
+    this.applySettings();
+  }
+
+  /**
+   * Applies the settings to open editors, since the extensions read them whenever they redraw
+   */
+  private applySettings(): void {
+    setActiveDelimiters(this.settings.delimiters);
+    document.body.style.setProperty('--variant-editor-dim-opacity', this.settings.dimOpacity.toString());
+    this.app.workspace.updateOptions();
+    this.scheduleWordCountUpdate();
+  }
+
+  /**
+   * Updates the status bar word count once typing or selecting pauses
+   */
+  private scheduleWordCountUpdate(): void {
+    if (this.wordCountTimeout !== null) {
+      window.clearTimeout(this.wordCountTimeout);
+    }
+    this.wordCountTimeout = window.setTimeout(() => {
+      this.wordCountTimeout = null;
+      this.updateWordCount();
+    }, 200);
+  }
+
+  /**
+   * Counts the selection, or the whole note without a selection, like the core word count
+   */
+  private updateWordCount(): void {
+    // Not created yet while the settings are first loaded
+    if (!this.wordCountEl) return;
+
+    const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+    if (!this.settings.showStatusBarCount || !editor) {
+      this.wordCountEl.hide();
+      return;
+    }
+
+    const selection = editor.getSelection();
+    const { words, characters, allWords, allCharacters } = countVariantText(selection || editor.getValue());
+    const plural = (count: number, noun: string) => `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+
+    this.wordCountEl.show();
+    this.wordCountEl.setText(`${plural(words, 'word')} ${plural(characters, 'character')}${selection ? ' selected' : ''}`);
+    setTooltip(this.wordCountEl, `Active variants only\nWith all variants: ${plural(allWords, 'word')}, ${plural(allCharacters, 'character')}`, {
+      placement: 'top'
+    });
+  }
+
+  /**
+   * Updates the variant count property of a note once it hasn't changed for a while
+   * The note that's currently open is only updated after switching away from it
+   */
+  private scheduleVariantCountUpdate(file: TFile): void {
+    const pending = this.variantCountTimeouts.get(file.path);
+    if (pending !== undefined) {
+      window.clearTimeout(pending);
+    }
+
+    this.variantCountTimeouts.set(file.path, window.setTimeout(() => {
+      this.variantCountTimeouts.delete(file.path);
+
+      // Changing the note being edited would add the property change to its undo history
+      if (this.app.workspace.getActiveFile()?.path === file.path) {
+        this.deferredVariantCounts.add(file.path);
+        return;
+      }
+
+      this.updateVariantCount(file).catch(e => console.error('Error in updateVariantCount:', e));
+    }, 3000));
+  }
+
+  /**
+   * Writes the number of unresolved variants of a note to its frontmatter
+   * Nothing is written when the count is already correct, so the write doesn't trigger
+   * another one, and notes without variants only get the property if they had it before
+   * @returns Whether the note was changed
+   */
+  private async updateVariantCount(file: TFile): Promise<boolean> {
+    // The archive quotes old options, which aren't open decisions
+    if (file.path === normalizePath(this.settings.archivePath)) return false;
+
+    const property = this.settings.openVariantsProperty;
+    const content = await this.app.vault.cachedRead(file);
+    const count = parseNoteVariants(content).length;
+
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const current = frontmatter?.[property];
+    if (current === count || (current === undefined && count === 0)) return false;
+
+    await this.app.fileManager.processFrontMatter(file, (fm) => {
+      fm[property] = count;
+    });
+    return true;
+  }
+
+  /**
+   * Fills in the variant count property for every note in the vault
+   */
+  private async updateAllVariantCounts(): Promise<void> {
+    try {
+      let updated = 0;
+      for (const file of this.app.vault.getMarkdownFiles()) {
+        if (await this.updateVariantCount(file)) updated++;
+      }
+      this.notify(`Updated the ${this.settings.openVariantsProperty} property in ${updated} note${updated === 1 ? '' : 's'}`);
+    } catch (e) {
+      console.error('Error in updateAllVariantCounts:', e);
+      new Notice('Error updating variant counts');
+    }
+  }
+
+  /**
+   * Shows an informational notice unless notices are turned off
+   * Errors should use Notice directly so they're always shown
+   */
+  notify(message: string): void {
+    if (this.settings.showNotices) {
+      new Notice(message);
+    }
   }
 
   /**
@@ -171,100 +536,205 @@ export default class VariantEditor extends Plugin {
     // Store a reference to the plugin instance for the widget to use
     const pluginInstance = this;
 
-    return ViewPlugin.fromClass(
+    /**
+     * Decorates the inline variants in a range of whole lines
+     * Variants written in code or math are left as raw text.
+     */
+    const decorateInlineVariants = (state: EditorState, from: number, to: number): Range<Decoration>[] => {
+      const decorations: Range<Decoration>[] = [];
+      const tree = syntaxTree(state);
+
+      for (const variant of parseVariants(state.doc.sliceString(from, to), from)) {
+        // Block variants are decorated by the state field below
+        if (variant.block || isInCodeOrMath(tree, variant.from)) continue;
+
+        const activeOption = getActiveOption(variant);
+        // Leave variants with an out-of-range index as raw text
+        if (!activeOption) continue;
+
+        const activeIndex = variant.activeIndex.toString();
+
+        // Add three decorations for each variant:
+        // 1. Hide everything before the active variant
+        decorations.push(Decoration.mark({
+          attributes: {
+            class: 'variant-syntax-start',
+            'data-full-variant': variant.raw,
+            'data-variant-index': activeIndex
+          }
+        }).range(variant.from, activeOption.from));
+
+        // 2. Show the active variant as a clickable widget
+        decorations.push(Decoration.replace({
+          widget: new ClickableVariantWidget(
+            pluginInstance,
+            activeOption.text,
+            variant.raw,
+            activeIndex,
+            activeOption.attributes.note
+          )
+        }).range(activeOption.from, activeOption.to));
+
+        // 3. Hide everything after the active variant
+        decorations.push(Decoration.mark({
+          attributes: {
+            class: 'variant-syntax-end',
+            'data-full-variant': variant.raw,
+            'data-variant-index': activeIndex
+          }
+        }).range(activeOption.to, variant.to));
+      }
+
+      return decorations;
+    };
+
+    const inlinePlugin = ViewPlugin.fromClass(
       class {
         decorations: DecorationSet;
+        delimiters: VariantDelimiters;
 
         constructor(view: EditorView) {
           this.decorations = this.buildDecorations(view);
         }
 
         update(update: ViewUpdate) {
-          if (update.docChanged || update.viewportChanged) {
+          // The delimiters are replaced whenever the settings change
+          if (update.viewportChanged || this.delimiters !== getActiveDelimiters() || this.contextChanged(update)) {
             this.decorations = this.buildDecorations(update.view);
+          } else if (update.docChanged) {
+            this.decorations = this.updateChangedLines(update);
           }
         }
 
         buildDecorations(view: EditorView): DecorationSet {
-          const builder = new RangeSetBuilder<Decoration>();
+          this.delimiters = getActiveDelimiters();
+
+          const doc = view.state.doc;
+          const decorations: Range<Decoration>[] = [];
+          // Visible ranges are widened to whole lines, so skip lines a previous range already covered
+          let decoratedTo = -1;
+          for (const { from, to } of view.visibleRanges) {
+            const lineFrom = Math.max(doc.lineAt(from).from, decoratedTo + 1);
+            const lineTo = doc.lineAt(to).to;
+            if (lineFrom > lineTo) continue;
+
+            decorations.push(...decorateInlineVariants(view.state, lineFrom, lineTo));
+            decoratedTo = lineTo;
+          }
 
-          for (let { from, to } of view.visibleRanges) {
-            const text = view.state.doc.sliceString(from, to);
-            const variantRegex = /\{\{([^{}]+?)\}\}\^(\d+)/g;
-            let match;
-
-            while ((match = variantRegex.exec(text)) !== null) {
-              const matchStart = from + match.index;
-              const matchEnd = matchStart + match[0].length;
-              const fullMatch = match[0];
-              const variantsText = match[1];
-              const activeIndex = parseInt(match[2], 10);
-
-              // Find the position of the active variant
-              let pos = 0;
-              if (activeIndex === 0) {
-                pos += 2; // Skip past the opening {{
-              }
-              for (let i = 0; i < activeIndex; i++) {
-                pos = fullMatch.indexOf('|', pos) + 1;
-              }
+          return Decoration.set(decorations, true);
+        }
 
-              const activeVariantStart = matchStart + pos;
-              const activeVariantEnd = activeVariantStart + variantsText.split('|')[activeIndex].length;
-
-              // Add three decorations for each variant:
-              // 1. Hide everything before the active variant
-              builder.add(
-                matchStart,
-                activeVariantStart,
-                Decoration.mark({
-                  attributes: {
-                    class: 'variant-syntax-start',
-                    'data-full-variant': fullMatch,
-                    'data-variant-index': activeIndex.toString()
-                  }
-                })
-              );
-
-              // 2. Show the active variant as a clickable widget
-              const activeVariantText = variantsText.split('|')[activeIndex];
-              builder.add(
-                activeVariantStart,
-                activeVariantEnd,
-                Decoration.replace({
-                  widget: new ClickableVariantWidget(
-                    pluginInstance,
-                    activeVariantText,
-                    fullMatch,
-                    activeIndex.toString(),
-                    matchStart,
-                    matchEnd
-                  )
-                })
-              );
-
-              // 3. Hide everything after the active variant
-              builder.add(
-                activeVariantEnd,
-                matchEnd,
-                Decoration.mark({
-                  attributes: {
-                    class: 'variant-syntax-end',
-                    'data-full-variant': fullMatch,
-                    'data-variant-index': activeIndex.toString()
-                  }
-                })
-              );
-            }
+        /**
+         * Checks whether text may have moved into or out of code or math, either because the
+         * parser reached the visible lines or because a code or math marker was typed
+         */
+        contextChanged(update: ViewUpdate): boolean {
+          const viewportEnd = update.view.viewport.to;
+          if (!syntaxTreeAvailable(update.startState, viewportEnd) && syntaxTreeAvailable(update.state, viewportEnd)) {
+            return true;
           }
+          return update.docChanged && changesCodeOrMath(update.changes, update.startState.doc);
+        }
 
-          return builder.finish();
+        /**
+         * Moves the existing decorations through the changes and redecorates only the changed lines
+         * Inline variants never span lines, so the other lines keep their decorations.
+         */
+        updateChangedLines(update: ViewUpdate): DecorationSet {
+          let decorations = this.decorations.map(update.changes);
+
+          for (const { from, to } of getChangedLines(update.changes, update.state.doc)) {
+            decorations = decorations.update({
+              filter: (decorationFrom, decorationTo) => decorationTo < from || decorationFrom > to,
+              filterFrom: from,
+              filterTo: to,
+              add: decorateInlineVariants(update.state, from, to),
+              sort: true
+            });
+          }
+
+          return decorations;
         }
       },
       {
         decorations: v => v.decorations
       }
     );
+
+    // Block variants replace decorations across line breaks, which view plugins
+    // aren't allowed to provide, so they come from a state field instead.
+    // The field keeps the parsed block variants, so moving the cursor doesn't reparse the note.
+    const decorateBlockVariants = (state: EditorState, variants: Variant[]): DecorationSet => {
+      const builder = new RangeSetBuilder<Decoration>();
+      const sourcePath = state.field(editorInfoField, false)?.file?.path ?? '';
+
+      const tree = syntaxTree(state);
+
+      for (const variant of variants) {
+        const activeOption = getActiveOption(variant);
+        if (!activeOption || isInCodeOrMath(tree, variant.from)) continue;
+
+        // Show the raw syntax while the cursor is inside the variant so it stays editable
+        const touchesSelection = state.selection.ranges.some(range => range.from <= variant.to && range.to >= variant.from);
+        if (touchesSelection) continue;
+
+        // Only a variant that covers whole lines can be replaced by a block widget
+        const coversLines = state.doc.lineAt(variant.from).from === variant.from &&
+          state.doc.lineAt(variant.to).to === variant.to;
+
+        builder.add(
+          variant.from,
+          variant.to,
+          Decoration.replace({
+            widget: new BlockVariantWidget(
+              pluginInstance,
+              activeOption.text,
+              variant.raw,
+              variant.activeIndex.toString(),
+              sourcePath,
+              activeOption.attributes.note
+            ),
+            block: coversLines
+          })
+        );
+      }
+
+      return builder.finish();
+    };
+
+    const blockField = StateField.define<{ variants: Variant[]; decorations: DecorationSet }>({
+      create(state) {
+        const variants = parseBlockVariants(state.doc);
+        return { variants, decorations: decorateBlockVariants(state, variants) };
+      },
+      update(value, transaction) {
+        let variants = value.variants;
+        // Settings changes reconfigure the editor, which may change the delimiters
+        if (transaction.reconfigured) {
+          variants = parseBlockVariants(transaction.state.doc);
+        } else if (transaction.docChanged) {
+          variants = updateBlockVariants(variants, transaction);
+        } else if (!transaction.selection && syntaxTree(transaction.startState) === syntaxTree(transaction.state)) {
+          // Neither the cursor nor the code and math around the variants changed
+          return value;
+        }
+        return { variants, decorations: decorateBlockVariants(transaction.state, variants) };
+      },
+      provide: field => EditorView.decorations.from(field, value => value.decorations)
+    });
+
+    // Block variants can be folded down to their first and last line while editing them
+    const blockFolding = foldService.of((state, lineStart, lineEnd) => {
+      const variant = state.field(blockField).variants.find(v => v.from >= lineStart && v.from <= lineEnd);
+      if (!variant || isInCodeOrMath(syntaxTree(state), variant.from)) return null;
+
+      // Keep the closing line visible, so the fold reads as the whole variant
+      const foldTo = state.doc.lineAt(variant.to).from - 1;
+      return foldTo > lineEnd ? { from: lineEnd, to: foldTo } : null;
+    });
+
+    return [inlinePlugin, blockField, blockFolding];
   }
 
   /**
@@ -297,6 +767,8 @@ export default class VariantEditor extends Plugin {
         decorations: DecorationSet;
         private lastCursorLine: number | null = null;
         private view: EditorView;
+        // What the current decorations were built from, to skip rebuilding when nothing changed
+        private builtFor = '';
 
         constructor(view: EditorView) {
           this.view = view;
@@ -310,8 +782,9 @@ export default class VariantEditor extends Plugin {
             const editorState = pluginInstance.activeEditorDimming.get(update.view);
             
             if (editorState && editorState.activeLine !== null) {
-              // If cursor moved to a different line than the active line, clear dimming
-              if (currentLine !== editorState.activeLine && 
+              // If cursor moved to a different line than the active lines, clear dimming
+              const outsideActiveLines = !this.isActiveLine(update.state, currentLine, editorState.activeLine);
+              if (outsideActiveLines && 
                   currentLine !== this.lastCursorLine) {
                 setTimeout(() => {
                   pluginInstance.clearHighlightForEditor(update.view);
@@ -322,8 +795,24 @@ export default class VariantEditor extends Plugin {
             this.lastCursorLine = currentLine;
           }
           
-          // Always update decorations to check if this editor should have dimming
-          this.decorations = this.buildDecorations(update.view);
+          // Rebuild only when the visible lines or this editor's dimming changed
+          if (update.docChanged || update.viewportChanged || this.getBuildKey(update.view) !== this.builtFor) {
+            this.decorations = this.buildDecorations(update.view);
+          }
+        }
+
+        /**
+         * Describes everything the decorations depend on besides the visible text
+         */
+        getBuildKey(view: EditorView): string {
+          const editorState = pluginInstance.activeEditorDimming.get(view);
+          const ranges = getTrackedVariants(view.state);
+          return [
+            editorState?.activeLine ?? '',
+            editorState?.selectedText ? 'selected' : '',
+            ranges.map(range => `${range.from}-${range.to}`).join(','),
+            pluginInstance.settings.dimOtherLines
+          ].join(':');
         }
 
         destroy() {
@@ -337,9 +826,20 @@ export default class VariantEditor extends Plugin {
           }
         }
 
+        /**
+         * Checks whether a line holds one of the variants being edited, following the
+         * tracked variants as lines are added or removed above them
+         */
+        isActiveLine(state: EditorState, line: number, activeLine: number): boolean {
+          const ranges = getTrackedVariants(state);
+          if (ranges.length === 0) return line === activeLine;
+          return ranges.some(range => line >= state.doc.lineAt(range.from).number && line <= state.doc.lineAt(range.to).number);
+        }
+
         buildDecorations(view: EditorView): DecorationSet {
           // Get editor-specific state - only apply dimming if this editor has active variant editing
           const editorState = pluginInstance.activeEditorDimming.get(view);
+          this.builtFor = this.getBuildKey(view);
           
           // If no editor state or no active line is set for this editor, return empty decorations
           if (!editorState || editorState.activeLine === null) {
@@ -349,10 +849,15 @@ export default class VariantEditor extends Plugin {
           // Collect all decorations first, then sort and add them
           const allDecorations = [];
           const activeLine = editorState.activeLine;
+          const ranges = getTrackedVariants(view.state);
           
-          // First pass: Collect line decorations for all lines except the active one
-          for (let i = 1; i <= view.state.doc.lines; i++) {
-            if (i !== activeLine) {
+          // First pass: Collect line decorations for the visible lines except the active ones
+          // Lines scrolled into view later are decorated when the viewport changes
+          const { from: viewportFrom, to: viewportTo } = view.viewport;
+          const firstLine = view.state.doc.lineAt(viewportFrom).number;
+          const lastLine = view.state.doc.lineAt(viewportTo).number;
+          for (let i = firstLine; pluginInstance.settings.dimOtherLines && i <= lastLine; i++) {
+            if (!this.isActiveLine(view.state, i, activeLine)) {
               try {
                 const line = view.state.doc.line(i);
                 const decoration = Decoration.line({
@@ -369,22 +874,21 @@ export default class VariantEditor extends Plugin {
             }
           }
 
-          // Second pass: Collect highlight decoration only for the currently selected text in this editor
-          if (editorState.selectedText && activeLine <= view.state.doc.lines && editorState.selectionFrom !== null && editorState.selectionTo !== null) {
-            try {
-              // Use the exact selection positions instead of searching for all instances
-              const start = editorState.selectionFrom;
-              const end = editorState.selectionTo;
-
-              allDecorations.push({
-                from: start,
-                to: end,
-                decoration: Decoration.mark({
-                  attributes: { class: "fh-highlight" }
-                })
-              });
-            } catch (e) {
-              console.error(`Error creating highlight decoration:`, e);
+          // Second pass: Collect highlight decorations only for the variants being edited in this editor
+          if (editorState.selectedText) {
+            // Use the tracked ranges instead of searching for all instances
+            for (const { from: start, to: end } of ranges) {
+              try {
+                allDecorations.push({
+                  from: start,
+                  to: end,
+                  decoration: Decoration.mark({
+                    attributes: { class: "fh-highlight" }
+                  })
+                });
+              } catch (e) {
+                console.error(`Error creating highlight decoration:`, e);
+              }
             }
           }
 
@@ -416,87 +920,100 @@ export default class VariantEditor extends Plugin {
       const editor = view.editor;
       const selection = editor.listSelections()[0];
 
-      // Variants only work within single lines
-      if (selection.anchor.line !== selection.head.line) {
-        new Notice('Selection must be within a single line');
-        return;
-      }
-
-      // Get the selected text and range
-      const from = {
-        line: Math.min(selection.anchor.line, selection.head.line),
-        ch: Math.min(selection.anchor.ch, selection.head.ch)
-      };
+      // Several selections of the same text get a linked variant each, driven by one variant editor
+      const linkedRanges = this.getLinkedSelections(editor);
 
-      const to = {
-        line: Math.max(selection.anchor.line, selection.head.line),
-        ch: Math.max(selection.anchor.ch, selection.head.ch)
-      };
+      // Get the selected text and range, with from always before to
+      const anchorFirst = editor.posToOffset(selection.anchor) <= editor.posToOffset(selection.head);
+      const from = { ...(anchorFirst ? selection.anchor : selection.head) };
+      const to = { ...(anchorFirst ? selection.head : selection.anchor) };
 
       let selectedText = editor.getRange(from, to);
       if (!selectedText) return;
 
       // Setup for variant editing
-      let initialText = selectedText;
+      let initialVariants = [selectedText];
+      let initialAttributes: VariantAttributes[] = [];
+      // The attributes of the whole variant, such as its group
+      let variantLevelAttributes: VariantAttributes = {};
       let initialActiveIndex = 0;
       let isExistingVariant = false;
+      let isBlockVariant = false;
 
       // Check if the selection is already a variant
-      const variantRegex = /^\{\{([^{}]+?)\}\}\^(\d+)$/;
-      const variantMatch = selectedText.match(variantRegex);
+      const selectedVariant = parseVariant(selectedText);
 
-      if (variantMatch) {
+      if (selectedVariant) {
         // Direct selection of a variant
-        initialText = variantMatch[1];
-        initialActiveIndex = parseInt(variantMatch[2], 10);
+        initialVariants = selectedVariant.options.map(option => option.text);
+        initialAttributes = selectedVariant.options.map(option => option.attributes);
+        variantLevelAttributes = selectedVariant.attributes;
+        initialActiveIndex = selectedVariant.activeIndex;
         isExistingVariant = true;
+        isBlockVariant = selectedVariant.block;
       } else {
-        // Check if we're clicking inside a variant
-        const line = editor.getLine(from.line);
-        if (line) {
-          const fullLineRegex = /\{\{([^{}]+?)\}\}\^(\d+)/g;
-          let match;
-
-          while ((match = fullLineRegex.exec(line)) !== null) {
-            const matchStart = match.index;
-            const matchEnd = matchStart + match[0].length;
-
-            // Check if selection overlaps with the variant at all
-            // This handles partial selections that include any part of the variant
-            if ((from.ch >= matchStart && from.ch < matchEnd) || // Selection starts inside variant
-              (to.ch > matchStart && to.ch <= matchEnd) ||    // Selection ends inside variant
-              (from.ch <= matchStart && to.ch >= matchEnd)) {  // Selection contains variant
-
-              // Selection overlaps with a variant - capture the entire variant
-              initialText = match[1];
-              initialActiveIndex = parseInt(match[2], 10);
-              isExistingVariant = true;
-
-              // Expand selection to cover the entire variant
-              from.ch = matchStart;
-              to.ch = matchEnd;
-              editor.setSelection(from, to);
-
-              // Update selectedText to match the expanded selection
-              selectedText = editor.getRange(from, to);
-              break;
-            }
+        // Check if we're clicking inside a variant, which may span several lines
+        const fromOffset = editor.posToOffset(from);
+        const toOffset = editor.posToOffset(to);
+
+        for (const variant of this.getEditorVariants(editor)) {
+          // Check if selection overlaps with the variant at all
+          // This handles partial selections that include any part of the variant
+          if ((fromOffset >= variant.from && fromOffset < variant.to) || // Selection starts inside variant
+            (toOffset > variant.from && toOffset <= variant.to) ||    // Selection ends inside variant
+            (fromOffset <= variant.from && toOffset >= variant.to)) {  // Selection contains variant
+
+            // Selection overlaps with a variant - capture the entire variant
+            initialVariants = variant.options.map(option => option.text);
+            initialAttributes = variant.options.map(option => option.attributes);
+            variantLevelAttributes = variant.attributes;
+            initialActiveIndex = variant.activeIndex;
+            isExistingVariant = true;
+            isBlockVariant = variant.block;
+
+            // Expand selection to cover the entire variant
+            Object.assign(from, editor.offsetToPos(variant.from));
+            Object.assign(to, editor.offsetToPos(variant.to));
+            editor.setSelection(from, to);
+
+            // Update selectedText to match the expanded selection
+            selectedText = editor.getRange(from, to);
+            break;
           }
         }
       }
 
+      // A new variant spanning several lines becomes a block variant of whole lines
+      if (!isExistingVariant && from.line !== to.line) {
+        // A selection ending at the start of a line doesn't include that line
+        if (to.ch === 0) {
+          to.line--;
+        }
+        from.ch = 0;
+        to.ch = editor.getLine(to.line).length;
+        editor.setSelection(from, to);
+
+        selectedText = editor.getRange(from, to);
+        initialVariants = [selectedText];
+        isBlockVariant = true;
+      }
+
       if (isExistingVariant) {
-        new Notice('Editing existing variant');
+        this.notify('Editing existing variant');
+      }
+
+      // Variants created at several selections share a group, so they stay linked after the editor closes
+      if (linkedRanges) {
+        variantLevelAttributes = { group: createGroupName(this.getEditorVariants(editor)) };
       }
 
       // Get or create editor-specific state
-      const editorView = (view.editor as any).cm;
+      const editorView = getEditorView(view.editor);
+      if (!editorView) return;
       if (!this.activeEditorDimming.has(editorView)) {
         this.activeEditorDimming.set(editorView, {
           activeLine: null,
           selectedText: null,
-          selectionFrom: null,
-          selectionTo: null,
           previousCursorLine: null,
           dimExtension: null
         });
@@ -510,23 +1027,11 @@ export default class VariantEditor extends Plugin {
       // Store the selected text for highlighting - make sure we use the potentially updated selection
       editorState.selectedText = selectedText;
 
-      // Convert EditorPosition to absolute character positions for highlighting
-      if (editorView) {
-        try {
-          // Convert line/ch positions to absolute character positions
-          const fromPos = editorView.state.doc.line(from.line + 1).from + from.ch;
-          const toPos = editorView.state.doc.line(to.line + 1).from + to.ch;
-
-          // Store the exact selection range for highlighting
-          editorState.selectionFrom = fromPos;
-          editorState.selectionTo = toPos;
-        } catch (e) {
-          console.error('Error converting positions:', e);
-        }
-      }
-
-      // The global dimming extension will automatically pick up this editor's state
-      // No need to register per-editor extensions
+      // Track the variants in the editor state, which maps their ranges through every edit
+      // until the variant editor closes, wherever in the document the edit happens
+      editorView.dispatch({
+        effects: setTrackedVariants.of(linkedRanges ?? [{ from: editor.posToOffset(from), to: editor.posToOffset(to) }])
+      });
 
       // Force editor refresh to apply decorations
       this.app.workspace.updateOptions();
@@ -534,59 +1039,64 @@ export default class VariantEditor extends Plugin {
       // Open the variant editor modal
       new TextInputModal(
         this.app,
-        initialText,
-        (variantText, activeIndex, commitVariant, currentFrom, currentTo, modalClosed) => {
-          // Use the updated cursor positions if provided, otherwise use the original positions
-          const updateFrom = currentFrom || from;
-          const updateTo = currentTo || to;
+        this.settings,
+        initialVariants,
+        (variantTexts, activeIndex, commitVariant, modalClosed, attributes, group) => {
+          const ranges = getTrackedVariants(editorView.state);
+          // The other variants of the group follow every change
+          const members = group && ranges.length > 0 ? this.getGroupMembers(editor, group, ranges) : [];
 
           if (modalClosed) {
             // Modal was closed without committing (via ESC key or clicking outside)
             // Clear the highlights
             this.clearHighlightForEditor(editorView);
+          } else if (ranges.length === 0) {
+            // The variant was deleted from the note while the modal was open
+            this.notify('The variant is no longer in the note');
           } else if (commitVariant === true) {
             // Replace the variant with just the active variant text (commit action)
+            const variantText = variantTexts[0];
             if (variantText) {
-              editor.replaceRange(variantText, updateFrom, updateTo);
-              new Notice(`Committed variant: "${variantText}"`);
+              const memberChanges = members.map(member => ({ from: member.from, to: member.to, insert: variantText }));
+              editorView.dispatch(replaceTrackedVariants(ranges, variantText, memberChanges));
+              const count = ranges.length + members.length;
+              this.notify(count === 1
+                ? `Committed variant: "${variantText}"`
+                : `Committed ${count} linked variants: "${variantText}"`);
               // Clear highlights when committing
               this.clearHighlightForEditor(editorView);
             }
           } else {
             // Create or update the variant syntax (normal variant creation/update)
-            const variants = variantText.split('|').filter(v => v);
+            const variants = variantTexts.filter(v => v);
+            const variantAttributes = variantTexts.map((_, i) => attributes?.[i] ?? {}).filter((_, i) => variantTexts[i]);
 
             if (variants.length > 0) {
               const activeIdx = typeof activeIndex === 'number' ? activeIndex : 0;
-              const variantSyntax = `{{${variants.join('|')}}}^${activeIdx}`;
-
-              // Use the updated cursor positions for the replacement
-              editor.replaceRange(variantSyntax, updateFrom, updateTo);
-
-              // Update the original positions for future updates
-              from.ch = updateFrom.ch;
-              to.ch = updateFrom.ch + variantSyntax.length;
+              // Keep block variants in block form even if every option fits on one line
+              const groupAttributes: VariantAttributes = { ...variantLevelAttributes };
+              if (group) {
+                groupAttributes.group = group;
+              } else {
+                delete groupAttributes.group;
+              }
+              const variantSyntax = serializeVariant(variants, activeIdx, undefined, isBlockVariant, variantAttributes, groupAttributes);
 
-              // Update selection positions for highlighting
-              try {
-                // Convert updated line/ch positions to absolute character positions
-                const fromPos = editorView.state.doc.line(updateFrom.line + 1).from + updateFrom.ch;
-                const toPos = editorView.state.doc.line(updateFrom.line + 1).from + updateFrom.ch + variantSyntax.length;
+              // Group members keep their own form and attributes but get the same options
+              const memberChanges = members.map(member => ({
+                from: member.from,
+                to: member.to,
+                insert: serializeVariant(variants, activeIdx, undefined, member.block, variantAttributes, member.attributes)
+              }));
 
-                // Update the exact selection range for highlighting
-                editorState.selectionFrom = fromPos;
-                editorState.selectionTo = toPos;
-
-                // Force editor refresh to update decorations
-                this.app.workspace.updateOptions();
-              } catch (e) {
-                console.error('Error updating selection positions:', e);
-              }
+              // Replace the tracked ranges and keep tracking the new syntax in the same transaction,
+              // so linked variants are updated together and undone in one step
+              editorView.dispatch(replaceTrackedVariants(ranges, variantSyntax, memberChanges));
 
               const action = isExistingVariant ? 'Updated' : 'Created';
               // Only show notice on explicit user action, not on every update
               if (commitVariant) {
-                new Notice(`${action} variant with ${variants.length} options (${variants[activeIdx]} active)`);
+                this.notify(`${action} variant with ${variants.length} options (${variants[activeIdx]} active)`);
                 // Only clear highlights when committing
                 this.clearHighlightForEditor(editorView);
               }
@@ -594,8 +1104,16 @@ export default class VariantEditor extends Plugin {
             }
           }
         },
-        from,
-        initialActiveIndex
+        this.settings.positionModalNearSelection ? from : null,
+        initialActiveIndex,
+        initialAttributes,
+        (texts, reason) => {
+          // Archive under the line the variant is on now, which may have moved since the modal opened
+          const [range] = getTrackedVariants(editorView.state);
+          const line = range ? editor.offsetToPos(range.from).line : from.line;
+          this.archiveOptions(texts, reason, view.file, line + 1);
+        },
+        variantLevelAttributes.group ?? ''
       ).open();
 
     } catch (e) {
@@ -603,6 +1121,232 @@ export default class VariantEditor extends Plugin {
     }
   }
 
+  /**
+   * Returns the ranges of several selections that hold the same text, in document order,
+   * so each can get a linked variant
+   * Returns null for a single selection, and explains why when the selections can't be linked.
+   */
+  private getLinkedSelections(editor: Editor): TrackedRange[] | null {
+    const ranges = editor.listSelections()
+      .map(selection => {
+        const anchor = editor.posToOffset(selection.anchor);
+        const head = editor.posToOffset(selection.head);
+        return { from: Math.min(anchor, head), to: Math.max(anchor, head) };
+      })
+      .filter(range => range.from < range.to)
+      .sort((a, b) => a.from - b.from);
+    if (ranges.length < 2) return null;
+
+    const content = editor.getValue();
+    const texts = ranges.map(range => content.slice(range.from, range.to));
+    const variants = this.getEditorVariants(editor);
+
+    if (texts.some(text => text !== texts[0])) {
+      new Notice('Linked variants need the same text in every selection. Using the first selection only.');
+      return null;
+    }
+    if (texts[0].includes('\n')) {
+      new Notice('Linked variants can only be created within a line. Using the first selection only.');
+      return null;
+    }
+    if (ranges.some(range => variants.some(variant => range.from < variant.to && range.to > variant.from))) {
+      new Notice('Linked variants can only be created outside existing variants. Using the first selection only.');
+      return null;
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Selects the entire variant and opens the variant editor on it
+   */
+  editVariant(view: EditorView, variant: Variant): void {
+    view.dispatch({
+      selection: { anchor: variant.from, head: variant.to }
+    });
+    this.highlightSelection();
+  }
+
+  /**
+   * Lists the options of a variant in a menu below it, for a quick switch without the variant editor
+   * The menu can be used with the arrow keys and Enter, and "More…" opens the variant editor.
+   */
+  showOptionPicker(view: EditorView, variant: Variant, anchorEl: HTMLElement): void {
+    const editor = view.state.field(editorInfoField, false)?.editor;
+    if (!editor) return;
+
+    // The note can't change while the menu is open, but check that the variant is still there
+    const findVariant = () => this.getEditorVariants(editor).find(v => v.from === variant.from && v.raw === variant.raw);
+
+    const menu = new Menu();
+    variant.options.forEach((option, index) => {
+      menu.addItem(item => item
+        .setTitle(previewText(option.text, MAX_PICKER_OPTION_LENGTH) || '(empty)')
+        .setChecked(index === variant.activeIndex)
+        .onClick(() => {
+          const current = findVariant();
+          if (current && index !== current.activeIndex) {
+            this.setActiveOption(editor, current, index);
+          }
+        }));
+    });
+
+    menu.addSeparator();
+    menu.addItem(item => item
+      .setTitle('More…')
+      .setIcon('pencil')
+      .onClick(() => {
+        const current = findVariant();
+        if (current) {
+          this.editVariant(view, current);
+        }
+      }));
+
+    const rect = anchorEl.getBoundingClientRect();
+    menu.showAtPosition({ x: rect.left, y: rect.bottom });
+  }
+
+  /**
+   * Selects the full syntax of a variant and scrolls it into view
+   */
+  selectVariant(editor: Editor, variant: Variant): void {
+    const from = editor.offsetToPos(variant.from);
+    const to = editor.offsetToPos(variant.to);
+    editor.setSelection(from, to);
+    editor.scrollIntoView({ from, to }, true);
+  }
+
+  /**
+   * Selects the next or previous variant after the cursor, wrapping around the document
+   * Opens the variant editor on it when enabled in the settings
+   */
+  private goToVariant(editor: Editor, direction: 1 | -1): void {
+    const variants = this.getEditorVariants(editor);
+    if (variants.length === 0) {
+      this.notify('No variants in this note');
+      return;
+    }
+
+    const cursor = editor.posToOffset(editor.getCursor('from'));
+    const target = direction === 1
+      ? variants.find(v => v.from > cursor) ?? variants[0]
+      : [...variants].reverse().find(v => v.from < cursor) ?? variants[variants.length - 1];
+
+    this.selectVariant(editor, target);
+    if (this.settings.openEditorOnNavigate) {
+      this.highlightSelection();
+    }
+  }
+
+  /**
+   * Returns the variants of an editor's note, leaving out those written in code or math
+   */
+  getEditorVariants(editor: Editor): Variant[] {
+    const editorView = getEditorView(editor);
+    return editorView ? parseEditorVariants(editorView.state) : parseVariants(editor.getValue());
+  }
+
+  /**
+   * Returns the variant under the cursor, if any
+   */
+  private getVariantAtCursor(editor: Editor): Variant | null {
+    const cursor = editor.posToOffset(editor.getCursor());
+    return this.getEditorVariants(editor).find(v => v.from <= cursor && cursor <= v.to) ?? null;
+  }
+
+  /**
+   * Shows the text around the variant under the cursor once per option
+   */
+  private compareOptions(editor: Editor, file: TFile | null): void {
+    const variant = this.getVariantAtCursor(editor);
+    if (!variant) {
+      this.notify('No variant at the cursor');
+      return;
+    }
+
+    new CompareOptionsModal(this.app, editor.getValue(), variant, file?.path ?? '', (index) => {
+      // Only switch if the variant is still where it was
+      const current = this.getEditorVariants(editor).find(v => v.from === variant.from && v.raw === variant.raw);
+      if (current) {
+        this.setActiveOption(editor, current, index);
+      }
+    }).open();
+  }
+
+  /**
+   * Makes the next or previous option of the variant under the cursor active, wrapping around
+   */
+  private cycleActiveOption(editor: Editor, direction: 1 | -1): void {
+    const variant = this.getVariantAtCursor(editor);
+    if (!variant) {
+      this.notify('No variant at the cursor');
+      return;
+    }
+
+    const count = variant.options.length;
+    // An out-of-range index starts over from the first or last option
+    const current = variant.activeIndex < count ? variant.activeIndex : (direction === 1 ? -1 : count);
+    this.setActiveOption(editor, variant, (current + direction + count) % count);
+  }
+
+  /**
+   * Switches the active option of a variant by rewriting only its index
+   * The cursor stays where it was, even if the index gets longer or shorter
+   */
+  setActiveOption(editor: Editor, variant: Variant, index: number): void {
+    const cursor = editor.posToOffset(editor.getCursor());
+    const newIndex = index.toString();
+
+    // Linked variants switch together, in one transaction so a single undo reverts them
+    const group = getVariantGroup(variant);
+    const targets = group
+      ? [variant, ...this.getGroupMembers(editor, group, [variant])].sort((a, b) => a.from - b.from)
+      : [variant];
+
+    editor.transaction({
+      changes: targets.map(target => ({
+        from: editor.offsetToPos(target.indexFrom),
+        to: editor.offsetToPos(target.indexTo),
+        text: newIndex
+      }))
+    });
+
+    // Keep the cursor on the same text, moving it by the change in length of every index before it
+    let newCursor = cursor;
+    for (const target of targets) {
+      if (cursor >= target.indexTo) {
+        newCursor += newIndex.length - (target.indexTo - target.indexFrom);
+      } else if (cursor > target.indexFrom) {
+        newCursor += Math.min(0, target.indexFrom + newIndex.length - cursor);
+      }
+    }
+    editor.setCursor(editor.offsetToPos(newCursor));
+  }
+
+  /**
+   * Returns the other variants of a group in the note, leaving out the given ranges
+   */
+  private getGroupMembers(editor: Editor, group: string, exclude: TrackedRange[]): Variant[] {
+    return findGroupMembers(this.getEditorVariants(editor), group)
+      .filter(member => !exclude.some(range => range.from < member.to && range.to > member.from));
+  }
+
+  /**
+   * Opens the variant outline in the right sidebar, or reveals it if it's already open
+   */
+  private async activateOutlineView(): Promise<void> {
+    let leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_VARIANT_OUTLINE)[0];
+
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: VIEW_TYPE_VARIANT_OUTLINE, active: true });
+    }
+
+    this.app.workspace.revealLeaf(leaf);
+  }
+
   /**
    * Commits all variants in the selection or entire document
    * @param editor The editor instance
@@ -616,16 +1360,10 @@ export default class VariantEditor extends Plugin {
 
       const selection = editor.listSelections()[0];
       if (selection && (selection.anchor.line !== selection.head.line || selection.anchor.ch !== selection.head.ch)) {
-        // Use the selection
-        from = {
-          line: Math.min(selection.anchor.line, selection.head.line),
-          ch: Math.min(selection.anchor.ch, selection.head.ch)
-        };
-
-        to = {
-          line: Math.max(selection.anchor.line, selection.head.line),
-          ch: Math.max(selection.anchor.ch, selection.head.ch)
-        };
+        // Use the selection, with from always before to
+        const anchorFirst = editor.posToOffset(selection.anchor) <= editor.posToOffset(selection.head);
+        from = { ...(anchorFirst ? selection.anchor : selection.head) };
+        to = { ...(anchorFirst ? selection.head : selection.anchor) };
 
         text = editor.getRange(from, to);
       } else {
@@ -635,46 +1373,43 @@ export default class VariantEditor extends Plugin {
         text = editor.getValue();
       }
 
-      // Find all variants in the text
-      const variantRegex = /\{\{([^{}]+?)\}\}\^(\d+)/g;
-      let match;
-      let variantsFound = 0;
-      let lastIndex = 0;
-      let result = '';
-
-      // Process each variant
-      while ((match = variantRegex.exec(text)) !== null) {
-        // Add text before this variant
-        result += text.substring(lastIndex, match.index);
-
-        // Extract variant information
-        const variants = match[1].split('|');
-        const activeIndex = parseInt(match[2], 10);
-
-        // Add the active variant text
-        if (activeIndex >= 0 && activeIndex < variants.length) {
-          result += variants[activeIndex];
-          variantsFound++;
-        } else {
-          // If active index is invalid, keep the original text
-          result += match[0];
-        }
-
-        // Update lastIndex for next iteration
-        lastIndex = match.index + match[0].length;
+      // Every member of a group is committed to the option active in its first member in the note,
+      // even when the selection starts at a later member
+      const choose = chooseByGroup(variant => variant.activeIndex);
+      const noteVariants = this.getEditorVariants(editor);
+      noteVariants.forEach(variant => choose(variant));
+
+      // Variants in code or math stay as they are
+      const fromOffset = editor.posToOffset(from);
+      const toOffset = editor.posToOffset(to);
+      const variants = noteVariants.filter(v => v.from >= fromOffset && v.to <= toOffset);
+
+      // Archive the options that are about to be dropped
+      const entries: ArchiveEntry[] = [];
+      const source = this.app.workspace.getActiveFile()?.path ?? '';
+      for (const variant of variants) {
+        const chosen = choose(variant);
+        if (!variant.options[chosen]) continue;
+        const line = editor.offsetToPos(variant.from).line + 1;
+        variant.options.forEach((option, index) => {
+          if (index !== chosen && option.text) {
+            entries.push({ text: option.text, source, line, time: Date.now(), reason: 'committed' });
+          }
+        });
       }
+      this.saveToArchive(entries);
 
-      // Add any remaining text
-      result += text.substring(lastIndex);
+      // Replace every variant in the text with its active option
+      const { text: result, count: variantsFound } = resolveVariantList(text, variants, choose, fromOffset);
 
       // Replace the text in the editor
       editor.replaceRange(result, from, to);
 
       // Show a notice with the results
       if (variantsFound > 0) {
-        new Notice(`Committed ${variantsFound} variant${variantsFound === 1 ? '' : 's'}`);
+        this.notify(`Committed ${variantsFound} variant${variantsFound === 1 ? '' : 's'}`);
       } else {
-        new Notice('No variants found to commit');
+        this.notify('No variants found to commit');
       }
     } catch (e) {
       console.error('Error in commitAllVariants:', e);
@@ -682,6 +1417,277 @@ export default class VariantEditor extends Plugin {
     }
   }
 
+  /**
+   * Archives options discarded in the variant editor
+   */
+  private archiveOptions(texts: string[], reason: ArchiveReason, file: TFile | null, line: number): void {
+    const time = Date.now();
+    this.saveToArchive(texts.map(text => ({ text, source: file?.path ?? '', line, time, reason })));
+  }
+
+  /**
+   * Appends entries to the archive note unless archiving is turned off
+   * Runs in the background, so a failure is reported but never blocks the edit
+   */
+  private saveToArchive(entries: ArchiveEntry[]): void {
+    if (!this.settings.archiveDiscardedOptions || entries.length === 0) return;
+
+    appendToArchive(this.app, this.settings.archivePath, entries).catch(e => {
+      console.error('Error in saveToArchive:', e);
+      new Notice('Error archiving discarded variants');
+    });
+  }
+
+  /**
+   * Lists the archived options and restores the chosen one at the cursor
+   */
+  private async browseArchive(editor: Editor): Promise<void> {
+    try {
+      const entries = await readArchive(this.app, this.settings.archivePath);
+      if (entries.length === 0) {
+        new Notice('The variant archive is empty');
+        return;
+      }
+
+      new ArchiveModal(this.app, entries, (entry) => this.restoreArchivedOption(editor, entry.text)).open();
+    } catch (e) {
+      console.error('Error in browseArchive:', e);
+      new Notice('Error reading the variant archive');
+    }
+  }
+
+  /**
+   * Brings an archived option back into the note
+   * Inside a variant it becomes a new option of that variant. Otherwise it becomes a
+   * new variant, with the selected text (if any) as the original.
+   */
+  private restoreArchivedOption(editor: Editor, text: string): void {
+    const from = editor.posToOffset(editor.getCursor('from'));
+    const to = editor.posToOffset(editor.getCursor('to'));
+    const variant = this.getEditorVariants(editor).find(v => v.from <= from && to <= v.to);
+
+    if (variant) {
+      const syntax = serializeVariant(
+        [...variant.options.map(option => option.text), text],
+        variant.activeIndex,
+        undefined,
+        variant.block,
+        variant.options.map(option => option.attributes),
+        variant.attributes
+      );
+      editor.replaceRange(syntax, editor.offsetToPos(variant.from), editor.offsetToPos(variant.to));
+      this.notify('Added archived variant as a new option');
+      return;
+    }
+
+    const selection = editor.getSelection();
+    editor.replaceSelection(serializeVariant(selection ? [selection, text] : [text], 0));
+    this.notify('Restored archived variant');
+  }
+
+  /**
+   * Folder holding the backups taken before committing variants across notes
+   */
+  private get backupDir(): string {
+    return `${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/backups`;
+  }
+
+  /**
+   * Commits the variants in several notes after backing all of them up in one step
+   * @param files The notes to commit
+   * @param options How to pick the option that replaces each variant
+   */
+  private async commitVariantsInFiles(files: TFile[], options: CommitFolderOptions): Promise<void> {
+    try {
+      await createBackup(this.app, this.backupDir, files);
+
+      const choose = createOptionChooser(options.rule, options.index);
+      let variantsFound = 0;
+      let notesChanged = 0;
+
+      for (const file of files) {
+        await this.app.vault.process(file, (data) => {
+          // Linked variants get the same option throughout a note
+          const { text, count } = resolveVariantList(data, parseNoteVariants(data), chooseByGroup(choose));
+          variantsFound += count;
+          if (count > 0) notesChanged++;
+          return text;
+        });
+      }
+
+      this.notify(`Committed ${variantsFound} variant${variantsFound === 1 ? '' : 's'} in ${notesChanged} note${notesChanged === 1 ? '' : 's'}. Use "Restore notes from last commit backup" to undo.`);
+    } catch (e) {
+      console.error('Error in commitVariantsInFiles:', e);
+      new Notice('Error committing variants');
+    }
+  }
+
+  /**
+   * Asks for a variant set and makes it active in every variant of the note
+   * The indices are changed in one transaction, so a single undo reverts them
+   */
+  private activateSetInEditor(editor: Editor): void {
+    const sets = collectVariantSets(this.getEditorVariants(editor));
+    if (sets.size === 0) {
+      new Notice('No variant sets in this note');
+      return;
+    }
+
+    new VariantSetModal(this.app, sets, (set) => {
+      const changes = getVariantSetChanges(this.getEditorVariants(editor), set);
+      if (changes.length > 0) {
+        editor.transaction({
+          changes: changes.map(change => ({
+            from: editor.offsetToPos(change.from),
+            to: editor.offsetToPos(change.to),
+            text: change.text
+          }))
+        });
+      }
+      this.notify(`Activated "${set}" in ${changes.length} variant${changes.length === 1 ? '' : 's'}`);
+    }).open();
+  }
+
+  /**
+   * Asks for a variant set and makes it active in every note of a folder (or the whole vault)
+   */
+  private async activateSetInFolder(folderPath: string): Promise<void> {
+    try {
+      const results = await scanVariants(this.app, getMarkdownFilesIn(this.app, folderPath));
+      const variants: Variant[] = [];
+      results.forEach(result => result.occurrences.forEach(occurrence => variants.push(occurrence.variant)));
+
+      const sets = collectVariantSets(variants);
+      if (sets.size === 0) {
+        new Notice(`No variant sets in ${folderPath || 'the vault'}`);
+        return;
+      }
+
+      new VariantSetModal(this.app, sets, async (set) => {
+        // The modal calls this after the surrounding try has finished, so it needs its own
+        try {
+          let variantsChanged = 0;
+          let notesChanged = 0;
+
+          for (const { file } of results) {
+            await this.app.vault.process(file, (data) => {
+              const { text, count } = applyVariantSet(data, parseNoteVariants(data), set);
+              variantsChanged += count;
+              if (count > 0) notesChanged++;
+              return text;
+            });
+          }
+
+          this.notify(`Activated "${set}" in ${variantsChanged} variant${variantsChanged === 1 ? '' : 's'} in ${notesChanged} note${notesChanged === 1 ? '' : 's'}`);
+        } catch (e) {
+          console.error('Error in activateSetInFolder:', e);
+          new Notice('Error activating variant set. Some notes may already use the new set.');
+        }
+      }).open();
+    } catch (e) {
+      console.error('Error in activateSetInFolder:', e);
+      new Notice('Error activating variant set');
+    }
+  }
+
+  /**
+   * Opens a note and selects a variant found in it
+   */
+  private async openOccurrence(file: TFile, occurrence: VariantOccurrence): Promise<void> {
+    try {
+      const leaf = this.app.workspace.getLeaf(false);
+      await leaf.openFile(file, { active: true });
+      if (!(leaf.view instanceof MarkdownView)) return;
+
+      const editor = leaf.view.editor;
+      // The note may have changed since it was scanned, so pick the closest copy of the variant,
+      // parsing it the same way the scan did
+      const expectedFrom = occurrence.variant.from;
+      const variant = parseNoteVariants(editor.getValue())
+        .filter(v => v.raw === occurrence.variant.raw)
+        .sort((a, b) => Math.abs(a.from - expectedFrom) - Math.abs(b.from - expectedFrom))[0];
+
+      if (variant) {
+        this.selectVariant(editor, variant);
+      } else {
+        const line = Math.min(occurrence.line, editor.lineCount() - 1);
+        editor.setCursor({ line, ch: 0 });
+        editor.scrollIntoView({ from: { line, ch: 0 }, to: { line, ch: 0 } }, true);
+      }
+    } catch (e) {
+      console.error('Error in openOccurrence:', e);
+      new Notice('Error opening variant');
+    }
+  }
+
+  /**
+   * Puts back the notes saved by the most recent folder commit
+   */
+  private async restoreCommitBackup(): Promise<void> {
+    try {
+      const result = await restoreLatestBackup(this.app, this.backupDir);
+      if (!result) {
+        new Notice('No commit backup to restore');
+        return;
+      }
+
+      this.notify(`Restored ${result.restored} note${result.restored === 1 ? '' : 's'}`);
+      if (result.missing.length > 0) {
+        new Notice(`Could not restore notes that were moved or deleted: ${result.missing.join(', ')}`);
+      }
+    } catch (e) {
+      console.error('Error in restoreCommitBackup:', e);
+      new Notice('Error restoring backup');
+    }
+  }
+
+  /**
+   * Writes a copy of a note with every variant resolved, leaving the draft untouched
+   * @param file The note to export
+   * @param options Destination and resolution options chosen in the export modal
+   */
+  private async exportResolvedCopy(file: TFile, options: ExportResolvedOptions): Promise<void> {
+    try {
+      let path = normalizePath(options.path);
+      if (!path.endsWith('.md')) {
+        path += '.md';
+      }
+
+      if (path === file.path) {
+        new Notice('Choose a different path than the draft itself');
+        return;
+      }
+
+      let content = await this.app.vault.cachedRead(file);
+      // Only the body is resolved, whether or not the frontmatter is kept
+      const variants = parseNoteVariants(content);
+      let offset = 0;
+      if (!options.includeFrontmatter) {
+        offset = getFrontMatterInfo(content).contentStart;
+        content = content.slice(offset);
+      }
+
+      const { text, count } = resolveVariantList(content, variants, chooseByGroup(createOptionChooser(options.rule, options.index)), offset);
+
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, text);
+      } else {
+        // Create any missing parent folders first
+        const folderPath = path.substring(0, path.lastIndexOf('/'));
+        if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+          await this.app.vault.createFolder(folderPath);
+        }
+        await this.app.vault.create(path, text);
+      }
+
+      this.notify(`Exported to ${path} with ${count} variant${count === 1 ? '' : 's'} resolved`);
+    } catch (e) {
+      console.error('Error in exportResolvedCopy:', e);
+      new Notice('Error exporting resolved note');
+    }
+  }
+
   /**
    * Clear highlighting for a specific editor
    */
@@ -694,8 +1700,9 @@ export default class VariantEditor extends Plugin {
         // Reset state for this editor
         editorState.activeLine = null;
         editorState.selectedText = null;
-        editorState.selectionFrom = null;
-        editorState.selectionTo = null;
+
+        // Stop tracking the variant
+        editorView.dispatch({ effects: setTrackedVariants.of([]) });
 
         // Force editor refresh to remove decorations
         this.app.workspace.updateOptions();
@@ -0,0 +1,44 @@
+import { App, SuggestModal, moment } from 'obsidian';
+import { ArchiveEntry } from '../utils/archiveUtils';
+import { previewText } from '../utils/preview';
+
+// Longest option text shown in the list before it's cut off
+const MAX_PREVIEW_LENGTH = 120;
+
+/**
+ * Lists the archived options, newest first, and hands the chosen one back to be restored
+ */
+export class ArchiveModal extends SuggestModal<ArchiveEntry> {
+    private entries: ArchiveEntry[];
+    private onChoose: (entry: ArchiveEntry) => void;
+
+    constructor(app: App, entries: ArchiveEntry[], onChoose: (entry: ArchiveEntry) => void) {
+        super(app);
+        this.entries = entries;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Search archived variants');
+        this.emptyStateText = 'No archived variants match.';
+    }
+
+    getSuggestions(query: string): ArchiveEntry[] {
+        const lowerQuery = query.toLowerCase();
+        return this.entries.filter(entry =>
+            entry.text.toLowerCase().includes(lowerQuery) ||
+            entry.source.toLowerCase().includes(lowerQuery)
+        );
+    }
+
+    renderSuggestion(entry: ArchiveEntry, el: HTMLElement) {
+        el.createDiv({ text: previewText(entry.text, MAX_PREVIEW_LENGTH) });
+
+        const action = entry.reason === 'deleted' ? 'Deleted from' : 'Not chosen in';
+        el.createEl('small', {
+            cls: 'variant-editor-suggestion-note',
+            text: `${action} ${entry.source}, line ${entry.line} · ${moment(entry.time).format('YYYY-MM-DD HH:mm')}`
+        });
+    }
+
+    onChooseSuggestion(entry: ArchiveEntry) {
+        this.onChoose(entry);
+    }
+}
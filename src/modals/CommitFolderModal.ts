@@ -0,0 +1,171 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { RESOLVE_RULE_NAMES, ResolveRule, createOptionChooser } from '../utils/resolveRules';
+import { FileVariants, getMarkdownFilesIn, scanVariants } from '../utils/vaultUtils';
+import { chooseByGroup } from '../utils/variantGroups';
+import { previewText } from '../utils/preview';
+
+export interface CommitFolderOptions {
+    folderPath: string;
+    rule: ResolveRule;
+    index: number;
+}
+
+// Longest text shown on either side of a diff line
+const MAX_DIFF_TEXT = 120;
+
+/**
+ * Modal that previews committing every variant in a folder (or the whole vault)
+ * and hands the notes to commit over to the plugin
+ */
+export class CommitFolderModal extends Modal {
+    private options: CommitFolderOptions;
+    private onSubmit: (files: TFile[], options: CommitFolderOptions) => Promise<void>;
+    private previewEl: HTMLElement;
+    private previewedFiles: TFile[] | null = null;
+
+    constructor(
+        app: App,
+        folderPath: string,
+        onSubmit: (files: TFile[], options: CommitFolderOptions) => Promise<void>
+    ) {
+        super(app);
+        this.options = { folderPath, rule: 'active', index: 0 };
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        this.setTitle('Commit variants in folder');
+
+        new Setting(contentEl)
+            .setName('Folder')
+            .setDesc('Leave empty for the whole vault.')
+            .addText(text => text
+                .setPlaceholder('Whole vault')
+                .setValue(this.options.folderPath)
+                .onChange(value => {
+                    this.options.folderPath = value;
+                    this.invalidatePreview();
+                }));
+
+        let indexSetting: Setting;
+
+        new Setting(contentEl)
+            .setName('Commit')
+            .setDesc('Which option replaces each variant')
+            .addDropdown(dropdown => dropdown
+                .addOptions(RESOLVE_RULE_NAMES)
+                .setValue(this.options.rule)
+                .onChange(value => {
+                    this.options.rule = value as ResolveRule;
+                    indexSetting.settingEl.toggle(this.options.rule === 'index');
+                    this.invalidatePreview();
+                }));
+
+        indexSetting = new Setting(contentEl)
+            .setName('Option index')
+            .setDesc('0 is the original text. Variants with fewer options keep their active option.')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '0';
+                text
+                    .setValue(this.options.index.toString())
+                    .onChange(value => {
+                        const index = parseInt(value, 10);
+                        this.options.index = isNaN(index) || index < 0 ? 0 : index;
+                        this.invalidatePreview();
+                    });
+            });
+        indexSetting.settingEl.toggle(false);
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Preview')
+                .onClick(() => this.preview()))
+            .addButton(button => button
+                .setButtonText('Commit')
+                .setCta()
+                .onClick(async () => {
+                    try {
+                        // Always commit exactly what was previewed
+                        if (!this.previewedFiles) {
+                            await this.preview();
+                            if (this.previewedFiles) {
+                                new Notice('Review the preview, then click Commit again');
+                            }
+                            return;
+                        }
+                        if (this.previewedFiles.length === 0) return;
+
+                        const files = this.previewedFiles;
+                        this.close();
+                        await this.onSubmit(files, this.options);
+                    } catch (e) {
+                        console.error('Error committing folder:', e);
+                        new Notice('Error committing variants');
+                    }
+                }));
+
+        this.previewEl = contentEl.createDiv({ cls: 'variant-editor-report' });
+    }
+
+    private invalidatePreview() {
+        this.previewedFiles = null;
+        this.previewEl.empty();
+    }
+
+    /**
+     * Lists every note with variants, with a per-variant before/after diff
+     * The scan leaves out code and math the same way the commit does, so the preview matches it.
+     */
+    private async preview() {
+        try {
+            const results = await scanVariants(this.app, getMarkdownFilesIn(this.app, this.options.folderPath));
+            this.previewedFiles = results.map(result => result.file);
+            this.renderPreview(results);
+        } catch (e) {
+            console.error('Error in preview:', e);
+            this.invalidatePreview();
+            new Notice('Error scanning notes for variants');
+        }
+    }
+
+    private renderPreview(results: FileVariants[]) {
+        this.previewEl.empty();
+
+        if (results.length === 0) {
+            this.previewEl.createEl('p', { text: 'No variants found.' });
+            return;
+        }
+
+        const choose = createOptionChooser(this.options.rule, this.options.index);
+        const total = results.reduce((sum, result) => sum + result.occurrences.length, 0);
+        this.previewEl.createEl('p', {
+            text: `${total} variant${total === 1 ? '' : 's'} in ${results.length} note${results.length === 1 ? '' : 's'} will be committed. A backup is saved first.`
+        });
+
+        for (const { file, occurrences } of results) {
+            const details = this.previewEl.createEl('details');
+            details.createEl('summary', { text: `${file.path} (${occurrences.length})` });
+
+            const diff = details.createDiv({ cls: 'variant-editor-diff' });
+            // Linked variants get the same option throughout a note
+            const chooseInNote = chooseByGroup(choose);
+            for (const { variant, line } of occurrences) {
+                const chosen = variant.options[chooseInNote(variant)];
+                diff.createDiv({ cls: 'variant-editor-diff-line', text: `Line ${line + 1}` });
+                diff.createDiv({ cls: 'variant-editor-diff-removed', text: `- ${previewText(variant.raw, MAX_DIFF_TEXT, ' ⏎ ')}` });
+                diff.createDiv({
+                    cls: 'variant-editor-diff-added',
+                    // Out-of-range variants are left as they are
+                    text: `+ ${previewText(chosen ? chosen.text : variant.raw, MAX_DIFF_TEXT, ' ⏎ ')}`
+                });
+            }
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,108 @@
+import { App, ButtonComponent, Component, MarkdownRenderer, Modal, Setting } from 'obsidian';
+import { Variant } from '../utils/variantSyntax';
+import { ContextScope, getVariantContext } from '../utils/variantContext';
+
+/**
+ * Modal that shows the sentence or paragraph around a variant once per option,
+ * stacked so the options can be read in context and compared
+ */
+export class CompareOptionsModal extends Modal {
+    private text: string;
+    private variant: Variant;
+    private sourcePath: string;
+    private onActivate: (index: number) => void;
+    private contextScope: ContextScope = 'paragraph';
+    private component: Component;
+    private cardsEl: HTMLElement;
+
+    constructor(
+        app: App,
+        text: string,
+        variant: Variant,
+        sourcePath: string,
+        onActivate: (index: number) => void
+    ) {
+        super(app);
+        this.text = text;
+        this.variant = variant;
+        this.sourcePath = sourcePath;
+        this.onActivate = onActivate;
+    }
+
+    onOpen() {
+        const { contentEl, modalEl } = this;
+
+        this.setTitle('Compare variants');
+        modalEl.addClass('variant-compare-modal');
+
+        // Owns the rendered markdown so it's cleaned up when the modal closes
+        this.component = new Component();
+        this.component.load();
+
+        // Block variants are compared with the paragraphs around them
+        if (!this.variant.block) {
+            new Setting(contentEl)
+                .setName('Context')
+                .addDropdown(dropdown => dropdown
+                    .addOptions({ sentence: 'Sentence', paragraph: 'Paragraph' })
+                    .setValue(this.contextScope)
+                    .onChange(value => {
+                        this.contextScope = value as ContextScope;
+                        this.renderCards();
+                    }));
+        }
+
+        this.cardsEl = contentEl.createDiv({ cls: 'variant-compare-cards' });
+        this.renderCards();
+    }
+
+    private renderCards() {
+        this.cardsEl.empty();
+
+        const { before, after } = getVariantContext(this.text, this.variant, this.contextScope);
+
+        this.variant.options.forEach((option, index) => {
+            const isActive = index === this.variant.activeIndex;
+            const card = this.cardsEl.createDiv({ cls: 'variant-compare-card' });
+            card.toggleClass('is-active', isActive);
+
+            const header = card.createDiv({ cls: 'variant-compare-header' });
+            header.createSpan({
+                cls: 'variant-compare-label',
+                text: index === 0 ? 'Original' : `Variant ${index}`
+            });
+
+            if (isActive) {
+                header.createSpan({ cls: 'variant-compare-active', text: 'Active' });
+            } else {
+                new ButtonComponent(header)
+                    .setButtonText('Make active')
+                    .onClick(() => {
+                        this.close();
+                        this.onActivate(index);
+                    });
+            }
+
+            const body = card.createDiv({ cls: 'variant-compare-body markdown-rendered' });
+            if (this.variant.block) {
+                // Render each part on its own, since markdown inside an HTML wrapper isn't rendered
+                this.render(before, body.createDiv());
+                this.render(option.text, body.createDiv({ cls: 'variant-compare-option' }));
+                this.render(after, body.createDiv());
+            } else {
+                this.render(`${before}<span class="variant-compare-option">${option.text}</span>${after}`, body);
+            }
+        });
+    }
+
+    private render(markdown: string, el: HTMLElement) {
+        if (!markdown.trim()) return;
+        MarkdownRenderer.render(this.app, markdown, el, this.sourcePath, this.component)
+            .catch(e => console.error('Error rendering variant comparison:', e));
+    }
+
+    onClose() {
+        this.component.unload();
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,93 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { RESOLVE_RULE_NAMES, ResolveRule } from '../utils/resolveRules';
+
+export interface ExportResolvedOptions {
+    path: string;
+    rule: ResolveRule;
+    index: number;
+    includeFrontmatter: boolean;
+}
+
+/**
+ * Modal that asks where and how to export a note with all variants resolved
+ */
+export class ExportResolvedModal extends Modal {
+    private options: ExportResolvedOptions;
+    private onSubmit: (options: ExportResolvedOptions) => void;
+
+    constructor(app: App, file: TFile, onSubmit: (options: ExportResolvedOptions) => void) {
+        super(app);
+        this.onSubmit = onSubmit;
+
+        // Default to a sibling note next to the draft
+        const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+        this.options = {
+            path: `${folder}${file.basename} (resolved).md`,
+            rule: 'active',
+            index: 0,
+            includeFrontmatter: true
+        };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        this.setTitle('Export with variants resolved');
+
+        new Setting(contentEl)
+            .setName('Destination')
+            .setDesc('Path of the new note. An existing note at this path is overwritten.')
+            .addText(text => text
+                .setValue(this.options.path)
+                .onChange(value => this.options.path = value.trim()));
+
+        let indexSetting: Setting;
+
+        new Setting(contentEl)
+            .setName('Resolve by')
+            .setDesc('Which option replaces each variant')
+            .addDropdown(dropdown => dropdown
+                .addOptions(RESOLVE_RULE_NAMES)
+                .setValue(this.options.rule)
+                .onChange(value => {
+                    this.options.rule = value as ResolveRule;
+                    indexSetting.settingEl.toggle(this.options.rule === 'index');
+                }));
+
+        indexSetting = new Setting(contentEl)
+            .setName('Option index')
+            .setDesc('0 is the original text. Variants with fewer options keep their active option.')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '0';
+                text
+                    .setValue(this.options.index.toString())
+                    .onChange(value => {
+                        const index = parseInt(value, 10);
+                        this.options.index = isNaN(index) || index < 0 ? 0 : index;
+                    });
+            });
+        indexSetting.settingEl.toggle(false);
+
+        new Setting(contentEl)
+            .setName('Include frontmatter')
+            .setDesc('Copy the properties of the draft into the exported note')
+            .addToggle(toggle => toggle
+                .setValue(this.options.includeFrontmatter)
+                .onChange(value => this.options.includeFrontmatter = value));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Export')
+                .setCta()
+                .onClick(() => {
+                    if (!this.options.path) return;
+                    this.close();
+                    this.onSubmit(this.options);
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,230 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { VariantDelimiters, validateDelimiters } from '../utils/variantSyntax';
+import { migrateDelimiters } from '../utils/delimiterMigration';
+import { getMarkdownFilesIn } from '../utils/vaultUtils';
+
+interface FileMigrationReport {
+    file: TFile;
+    variants: number;
+    conflicts: number;
+}
+
+/**
+ * Modal that migrates notes from one variant delimiter scheme to another
+ * A dry run lists the affected files before anything is written
+ */
+export class MigrateDelimitersModal extends Modal {
+    private from: VariantDelimiters;
+    private to: VariantDelimiters;
+    private folderPath: string = '';
+    private updateSettings: boolean = true;
+    private onMigrated: (to: VariantDelimiters, updateSettings: boolean) => void;
+    private reportEl: HTMLElement;
+
+    constructor(
+        app: App,
+        from: VariantDelimiters,
+        to: VariantDelimiters,
+        onMigrated: (to: VariantDelimiters, updateSettings: boolean) => void
+    ) {
+        super(app);
+        this.from = { ...from };
+        this.to = { ...to };
+        this.onMigrated = onMigrated;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        this.setTitle('Migrate variant delimiters');
+
+        this.addDelimiterSetting('From', 'The delimiters your notes use now', this.from);
+        this.addDelimiterSetting('To', 'The delimiters to rewrite them with', this.to);
+
+        new Setting(contentEl)
+            .setName('Folder')
+            .setDesc('Only migrate notes in this folder. Leave empty for the whole vault.')
+            .addText(text => text
+                .setPlaceholder('Whole vault')
+                .onChange(value => this.folderPath = value));
+
+        new Setting(contentEl)
+            .setName('Use the new delimiters')
+            .setDesc('Switch the plugin settings to the new delimiters after migrating, once no note in the vault uses the old ones')
+            .addToggle(toggle => toggle
+                .setValue(this.updateSettings)
+                .onChange(value => this.updateSettings = value));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Dry run')
+                .onClick(() => this.dryRun()))
+            .addButton(button => button
+                .setButtonText('Migrate')
+                .setCta()
+                .onClick(() => this.migrate()));
+
+        this.reportEl = contentEl.createDiv({ cls: 'variant-editor-report' });
+    }
+
+    /**
+     * Adds a row with one input per delimiter, bound to the given scheme
+     */
+    private addDelimiterSetting(name: string, desc: string, delimiters: VariantDelimiters) {
+        const setting = new Setting(this.contentEl).setName(name).setDesc(desc);
+        const keys: { key: keyof VariantDelimiters; label: string }[] = [
+            { key: 'open', label: 'Open' },
+            { key: 'separator', label: 'Separator' },
+            { key: 'close', label: 'Close' },
+            { key: 'indexMarker', label: 'Index marker' }
+        ];
+
+        for (const { key, label } of keys) {
+            setting.addText(text => {
+                text.inputEl.addClass('variant-editor-delimiter-input');
+                text.inputEl.setAttribute('aria-label', label);
+                text
+                    .setPlaceholder(label)
+                    .setValue(delimiters[key])
+                    .onChange(value => delimiters[key] = value);
+            });
+        }
+    }
+
+    /**
+     * Checks the chosen delimiters, showing a notice when they can't be used
+     */
+    private validate(): boolean {
+        const error = validateDelimiters(this.from) ?? validateDelimiters(this.to);
+        if (error) {
+            new Notice(error);
+            return false;
+        }
+        if (JSON.stringify(this.from) === JSON.stringify(this.to)) {
+            new Notice('The old and new delimiters are the same');
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Counts the variants and conflicts in every note in scope without changing anything
+     */
+    private async planMigration(): Promise<FileMigrationReport[]> {
+        const reports: FileMigrationReport[] = [];
+        for (const file of getMarkdownFilesIn(this.app, this.folderPath)) {
+            const content = await this.app.vault.cachedRead(file);
+            const { variants, conflicts } = migrateDelimiters(content, this.from, this.to);
+            if (variants > 0 || conflicts > 0) {
+                reports.push({ file, variants, conflicts });
+            }
+        }
+        return reports;
+    }
+
+    /**
+     * Checks whether any note in the vault still has variants written with the old delimiters
+     */
+    private async usesOldDelimiters(): Promise<boolean> {
+        for (const file of getMarkdownFilesIn(this.app, '')) {
+            const content = await this.app.vault.cachedRead(file);
+            if (migrateDelimiters(content, this.from, this.to).variants > 0) return true;
+        }
+        return false;
+    }
+
+    private async dryRun() {
+        if (!this.validate()) return;
+
+        try {
+            const reports = await this.planMigration();
+            this.renderReport(reports, 'would be migrated');
+        } catch (e) {
+            console.error('Error in dryRun:', e);
+            new Notice('Error scanning notes for variants');
+        }
+    }
+
+    private async migrate() {
+        if (!this.validate()) return;
+
+        try {
+            const reports = await this.planMigration();
+            let migratedFiles = 0;
+            let migratedVariants = 0;
+            let skippedFiles = 0;
+
+            for (const report of reports) {
+                // Notes where the new syntax already appears would gain stray variants
+                if (report.conflicts > 0) {
+                    skippedFiles++;
+                    continue;
+                }
+
+                let migrated = false;
+                await this.app.vault.process(report.file, (data) => {
+                    // Recheck the current content, which may have changed since planning
+                    const result = migrateDelimiters(data, this.from, this.to);
+                    if (result.conflicts > 0) return data;
+
+                    migrated = true;
+                    migratedVariants += result.variants;
+                    return result.text;
+                });
+                if (migrated) {
+                    migratedFiles++;
+                } else {
+                    skippedFiles++;
+                }
+            }
+
+            this.renderReport(reports, 'migrated');
+            new Notice(`Migrated ${migratedVariants} variant${migratedVariants === 1 ? '' : 's'} in ${migratedFiles} note${migratedFiles === 1 ? '' : 's'}`);
+
+            if (!this.updateSettings) return;
+
+            // Switching while some notes still use the old delimiters would break their variants,
+            // and skipped notes would gain stray variants from their conflicting text
+            if (skippedFiles > 0 || await this.usesOldDelimiters()) {
+                new Notice('Kept the old delimiters in the settings, since some notes still use them. Migrate the rest of the vault before switching.');
+                return;
+            }
+            this.onMigrated(this.to, true);
+        } catch (e) {
+            console.error('Error in migrate:', e);
+            new Notice('Error migrating delimiters. Notes migrated so far already use the new delimiters.');
+        }
+    }
+
+    /**
+     * Lists the affected notes with their counts
+     */
+    private renderReport(reports: FileMigrationReport[], action: string) {
+        this.reportEl.empty();
+
+        if (reports.length === 0) {
+            this.reportEl.createEl('p', { text: 'No variants found.' });
+            return;
+        }
+
+        const total = reports.reduce((sum, report) => sum + report.variants, 0);
+        this.reportEl.createEl('p', {
+            text: `${total} variant${total === 1 ? '' : 's'} in ${reports.length} note${reports.length === 1 ? '' : 's'} ${action}.`
+        });
+
+        const list = this.reportEl.createEl('ul');
+        for (const report of reports) {
+            const item = list.createEl('li', { text: `${report.file.path}: ${report.variants}` });
+            if (report.conflicts > 0) {
+                item.createSpan({
+                    cls: 'variant-editor-report-warning',
+                    text: ` (skipped: ${report.conflicts} existing match${report.conflicts === 1 ? '' : 'es'} for the new delimiters)`
+                });
+            }
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -1,4 +1,9 @@
-import { App, Modal, Setting, ButtonComponent, setTooltip, EditorPosition } from 'obsidian';
+import { App, Modal, Setting, ButtonComponent, DropdownComponent, setTooltip, setIcon, EditorPosition } from 'obsidian';
+import { VariantAttributes } from '../utils/variantSyntax';
+import { ArchiveReason } from '../utils/archiveUtils';
+import { DIFF_MODE_NAMES, DiffMode, VariantEditorSettings } from '../settings';
+import { diffWords } from '../utils/wordDiff';
+import { getTextStats } from '../utils/textStats';
 
 /**
  * Modal for text input that appears after highlighting
@@ -6,15 +11,22 @@ import { App, Modal, Setting, ButtonComponent, setTooltip, EditorPosition } from
  */
 export class TextInputModal extends Modal {
     private variants: string[] = [];
+    // The attributes of each variant, kept in the same order as the variants
+    private attributes: VariantAttributes[] = [];
     private activeVariantIndex: number = 0;
     private lastNonEmptyVariantIndex: number = 0; // Track the last non-empty variant index
-    private onSubmit: (result: string, activeIndex?: number, commitVariant?: boolean, currentFrom?: EditorPosition | null, currentTo?: EditorPosition | null, modalClosed?: boolean) => void;
-    private originalText: string;
+    private onSubmit: (result: string[], activeIndex?: number, commitVariant?: boolean, modalClosed?: boolean, attributes?: VariantAttributes[], group?: string) => void;
+    // The group that links this variant to others that switch together, empty for none
+    private group: string;
+    // Receives options that are deleted or left out when committing, so they can be archived
+    private onDiscard: (texts: string[], reason: ArchiveReason) => void;
     private variantContainer: HTMLElement;
+    // What the options are compared against, and the element showing each option's differences
+    private diffMode: DiffMode;
+    private diffPreviews: (HTMLElement | null)[] = [];
+    private statsEls: (HTMLElement | null)[] = [];
+    private settings: VariantEditorSettings;
     private cursorPosition: EditorPosition | null;
-    // Track the current variant position in the editor
-    private currentFrom: EditorPosition | null;
-    private currentTo: EditorPosition | null;
 
     // Drag and drop properties
     private draggedElement: HTMLElement | null = null;
@@ -122,31 +134,45 @@ export class TextInputModal extends Modal {
 
     constructor(
         app: App,
-        originalText: string,
-        onSubmit: (result: string, activeIndex?: number, commitVariant?: boolean, currentFrom?: EditorPosition | null, currentTo?: EditorPosition | null, modalClosed?: boolean) => void,
+        settings: VariantEditorSettings,
+        initialVariants: string[],
+        onSubmit: (result: string[], activeIndex?: number, commitVariant?: boolean, modalClosed?: boolean, attributes?: VariantAttributes[], group?: string) => void,
         cursorPosition: EditorPosition | null = null,
         initialActiveIndex: number = 0,
-        currentFrom: EditorPosition | null = null,
-        currentTo: EditorPosition | null = null
+        initialAttributes: VariantAttributes[] = [],
+        onDiscard: (texts: string[], reason: ArchiveReason) => void = () => {},
+        initialGroup: string = ''
     ) {
         super(app);
-        this.originalText = originalText;
+        this.settings = settings;
         this.onSubmit = onSubmit;
-
-        // If the originalText contains pipe characters, it might be a variant list
-        if (originalText.includes('|')) {
-            this.variants = originalText.split('|').filter(v => v);
-            this.activeVariantIndex = initialActiveIndex;
-            this.lastNonEmptyVariantIndex = initialActiveIndex; // Initialize with the active index
+        this.onDiscard = onDiscard;
+        this.group = initialGroup;
+        this.diffMode = settings.diffMode;
+
+        // Several options mean we're editing an existing variant
+        if (initialVariants.length > 1) {
+            const nonEmpty = initialVariants
+                .map((text, i) => ({ text, attributes: initialAttributes[i] ?? {}, index: i }))
+                .filter(v => v.text);
+            if (nonEmpty.length === 0) {
+                nonEmpty.push({ text: '', attributes: {}, index: 0 });
+            }
+            this.variants = nonEmpty.map(v => v.text);
+            this.attributes = nonEmpty.map(v => ({ ...v.attributes }));
+            // Point at the same option once the empty ones before it are gone,
+            // or at the option before it if the active one was empty
+            const kept = nonEmpty.filter(v => v.index <= initialActiveIndex).length;
+            this.activeVariantIndex = Math.max(0, kept - 1);
+            this.lastNonEmptyVariantIndex = this.activeVariantIndex; // Initialize with the active index
         } else {
-            this.variants = [originalText];
+            this.variants = [initialVariants[0] ?? ''];
+            this.attributes = [{ ...(initialAttributes[0] ?? {}) }];
             this.activeVariantIndex = 0;
             this.lastNonEmptyVariantIndex = 0;
         }
 
         this.cursorPosition = cursorPosition;
-        this.currentFrom = currentFrom || cursorPosition;
-        this.currentTo = currentTo;
     }
 
     onOpen() {
@@ -199,6 +225,7 @@ export class TextInputModal extends Modal {
         // We'll add an empty variant if there isn't one already
         if (this.variants.length === 0 || this.variants[this.variants.length - 1].trim() !== '') {
             this.variants.push('');
+            this.attributes.push({});
         }
 
         // Add the first variant (original text) and the empty row
@@ -241,9 +268,14 @@ export class TextInputModal extends Modal {
                 const activeVariant = nonEmptyVariantsWithIndices.find(v => v.originalIndex === this.activeVariantIndex);
 
                 if (activeVariant) {
-                    this.close();
+                    this.onDiscard(
+                        nonEmptyVariantsWithIndices.filter(v => v !== activeVariant).map(v => v.text),
+                        'committed'
+                    );
                     // Pass the active variant text directly with commitVariant flag
-                    this.onSubmit(activeVariant.text, undefined, true);
+                    // Commit before closing, since closing stops tracking the variant
+                    this.onSubmit([activeVariant.text], undefined, true, false, undefined, this.group);
+                    this.close();
                 }
             });
 
@@ -253,6 +285,18 @@ export class TextInputModal extends Modal {
         commitButton.buttonEl.prepend(commitIcon);
         commitButton.buttonEl.addClass('variant-editor-button', 'variant-editor-commit-button');
 
+        // Choose what the options are compared against
+        const diffDropdown = new DropdownComponent(buttonsContainer)
+            .addOptions(DIFF_MODE_NAMES)
+            .setValue(this.diffMode)
+            .onChange(value => {
+                this.diffMode = value as DiffMode;
+                this.updateDiffPreviews();
+            });
+        diffDropdown.selectEl.addClass('variant-editor-diff-mode');
+
+        this.renderGroupInput(buttonsContainer);
+
         // Add tooltips to the buttons
         if (buttonsContainer.children[0] instanceof HTMLElement) {
             setTooltip(buttonsContainer.children[0] as HTMLElement, hasMultipleVariants ? 'Save all variants' : 'Create variants', {
@@ -299,8 +343,8 @@ export class TextInputModal extends Modal {
         let top = lineRect.bottom + padding;
         let positionAbove = false;
 
-        // Use a fixed maximum height for the modal (455px) plus some padding
-        const MAX_MODAL_HEIGHT = 455;
+        // Use the configured maximum height for the modal plus some padding
+        const MAX_MODAL_HEIGHT = this.settings.modalMaxHeight;
         const BOTTOM_PADDING = 50;
         
         // Check if there's enough space below the line
@@ -348,6 +392,9 @@ export class TextInputModal extends Modal {
      * Returns the new cursor positions for tracking
      */
     private updateVariantsInEditor() {
+        // The active option may have changed, which is what the differences can be relative to
+        this.updateDiffPreviews();
+
         // Filter out empty variants and track their original indices
         const nonEmptyVariantsWithIndices = this.variants
             .map((v, i) => ({ text: v, originalIndex: i }))
@@ -389,33 +436,22 @@ export class TextInputModal extends Modal {
                 newActiveIndex = nonEmptyVariantsWithIndices.length - 1;
             }
 
-            // Join variants with pipe character for the expected format and pass the corrected active index
+            // Pass the non-empty variants along with the corrected active index
             const nonEmptyVariants = nonEmptyVariantsWithIndices.map(v => v.text);
-            const variantText = nonEmptyVariants.join('|');
+            const nonEmptyAttributes = nonEmptyVariantsWithIndices.map(v => this.attributes[v.originalIndex] ?? {});
 
             // Call onSubmit with the new variant text and active index
             // The third parameter (false) indicates this is not a commit operation
-            // We're also passing the current cursor positions for tracking
-            this.onSubmit(variantText, newActiveIndex, false, this.currentFrom, this.currentTo);
-
-            // Calculate the new cursor positions based on the variant text length
-            if (this.currentFrom) {
-                // If we have a currentTo position, update it based on the new variant text length
-                if (this.currentTo) {
-                    const variantSyntax = `{{${variantText}}}^${newActiveIndex}`;
-                    const newTo = {
-                        line: this.currentFrom.line,
-                        ch: this.currentFrom.ch + variantSyntax.length
-                    };
-                    this.currentTo = newTo;
-                }
-            }
+            // The editor keeps track of where the variant is, so no positions are passed
+            this.onSubmit(nonEmptyVariants, newActiveIndex, false, false, nonEmptyAttributes, this.group);
         }
     }
 
     private renderVariantInputs(focusIndex?: number) {
         // Clear existing inputs
         this.variantContainer.empty();
+        this.diffPreviews = [];
+        this.statsEls = [];
 
         // Create an input for each variant
         this.variants.forEach((variant, index) => {
@@ -600,6 +636,7 @@ export class TextInputModal extends Modal {
 
                     // Move the variant in the array
                     const draggedVariant = this.variants[this.draggedIndex];
+                    const draggedAttributes = this.attributes[this.draggedIndex];
 
                     // Get the target index (this.dragOverIndex was set in dragover)
                     const targetIndex = this.dragOverIndex;
@@ -614,9 +651,11 @@ export class TextInputModal extends Modal {
 
                     // Remove the dragged variant
                     this.variants.splice(this.draggedIndex, 1);
+                    this.attributes.splice(this.draggedIndex, 1);
 
                     // Insert at the new position
                     this.variants.splice(adjustedTargetIndex, 0, draggedVariant);
+                    this.attributes.splice(adjustedTargetIndex, 0, draggedAttributes);
 
                     // Update active index if needed
                     if (this.activeVariantIndex === this.draggedIndex) {
@@ -653,10 +692,11 @@ export class TextInputModal extends Modal {
             const variantInput = variantRow.createDiv({
                 cls: 'variant-editor-input',
                 attr: {
-                    contenteditable: 'true',
+                    // Plain text only, so Enter inserts a line break for multi-line variants
+                    contenteditable: 'plaintext-only',
                     'data-placeholder': placeholder,
                     'role': 'textbox',
-                    'aria-multiline': 'false'
+                    'aria-multiline': 'true'
                 }
             });
 
@@ -754,6 +794,8 @@ export class TextInputModal extends Modal {
             // Update the variant when the input changes
             variantInput.addEventListener('input', (e) => {
                 this.variants[index] = variantInput.textContent || '';
+                this.updateDiffPreviews();
+                this.updateOptionStats();
 
                 // If this is the last row and user starts typing, add a new empty row
                 if (index === this.variants.length - 1 && variantInput.textContent && variantInput.textContent.trim() !== '') {
@@ -768,6 +810,7 @@ export class TextInputModal extends Modal {
 
                         // Add a new empty variant row
                         this.variants.push('');
+                        this.attributes.push({});
 
                         // Re-render but keep focus on the current row
                         this.renderVariantInputs(currentActiveIndex);
@@ -801,6 +844,18 @@ export class TextInputModal extends Modal {
 
             // Don't allow deleting the original variant or the empty "Add a variant" row
             const isEmptyAddVariantRow = index === this.variants.length - 1 && variant.trim() === '';
+
+            // Label for the variant set this option belongs to, and a note on why it exists
+            if (!isEmptyAddVariantRow) {
+                this.renderSetInput(variantRow, index);
+                this.renderNoteInput(variantRow, index);
+
+                // Placed on its own line below the variant by the stylesheet
+                this.diffPreviews[index] = variantRow.createDiv({ cls: 'variant-editor-diff-preview' });
+                if (this.settings.showOptionStats) {
+                    this.statsEls[index] = variantRow.createDiv({ cls: 'variant-editor-stats' });
+                }
+            }
             if (index > 0 && !isEmptyAddVariantRow) {
                 // Delete button
                 const deleteButton = variantRow.createEl('button', {
@@ -837,8 +892,13 @@ export class TextInputModal extends Modal {
                         }
                     }
 
+                    if (this.variants[index].trim().length > 0) {
+                        this.onDiscard([this.variants[index]], 'deleted');
+                    }
+
                     // Remove the variant from the array
                     this.variants.splice(index, 1);
+                    this.attributes.splice(index, 1);
 
                     // If we deleted all variants except one, make sure it's not empty
                     if (this.variants.length === 1 && this.variants[0].trim() === '') {
@@ -873,8 +933,200 @@ export class TextInputModal extends Modal {
                 }, 10);
             }
         });
+
+        this.updateDiffPreviews();
+        this.updateOptionStats();
+    }
+
+
+    /**
+     * Shows the words each option adds or removes compared to the original or the active option
+     */
+    private updateDiffPreviews() {
+        const referenceIndex = this.diffMode === 'active' ? this.activeVariantIndex : 0;
+        const reference = this.variants[referenceIndex] ?? '';
+
+        this.diffPreviews.forEach((preview, index) => {
+            if (!preview) return;
+
+            const text = this.variants[index] ?? '';
+            const show = this.diffMode !== 'off' &&
+                index !== referenceIndex &&
+                text.trim().length > 0 &&
+                reference.trim().length > 0;
+
+            preview.empty();
+            preview.toggle(show);
+            if (!show) return;
+
+            for (const part of diffWords(reference, text)) {
+                if (part.type === 'same') {
+                    preview.appendText(part.text);
+                } else {
+                    preview.createEl(part.type === 'added' ? 'ins' : 'del', {
+                        cls: `variant-editor-word-${part.type}`,
+                        text: part.text
+                    });
+                }
+            }
+        });
     }
 
+    /**
+     * Shows the word count, character count and reading ease of each option
+     */
+    private updateOptionStats() {
+        this.statsEls.forEach((statsEl, index) => {
+            if (!statsEl) return;
+
+            const text = this.variants[index] ?? '';
+            statsEl.toggle(text.trim().length > 0);
+
+            const { words, characters, readingEase } = getTextStats(text);
+            const parts = [
+                `${words} word${words === 1 ? '' : 's'}`,
+                `${characters} character${characters === 1 ? '' : 's'}`
+            ];
+            if (readingEase !== null) {
+                parts.push(`reading ease ${readingEase}`);
+            }
+            statsEl.setText(parts.join(' · '));
+        });
+    }
+
+    /**
+     * Adds an input for the set name of a variant, e.g. "formal" or "casual"
+     */
+    private renderSetInput(variantRow: HTMLElement, index: number) {
+        const setInput = variantRow.createEl('input', {
+            cls: 'variant-editor-set-input',
+            attr: {
+                type: 'text',
+                placeholder: 'Set',
+                'aria-label': 'Variant set'
+            }
+        });
+        setInput.value = this.attributes[index]?.set ?? '';
+
+        setTooltip(setInput, 'Variant set, switched with "Activate variant set"', {
+            placement: 'top'
+        });
+
+        // Keep the row click handler from re-rendering while typing
+        setInput.addEventListener('click', (e) => e.stopPropagation());
+
+        setInput.addEventListener('change', () => {
+            const attributes = this.attributes[index] ?? (this.attributes[index] = {});
+            const set = setInput.value.trim();
+            if (set) {
+                attributes.set = set;
+            } else {
+                delete attributes.set;
+            }
+
+            // Same as typing: only update the editor once there is something to switch between
+            if (this.variants.filter(v => v.trim().length > 0).length >= 2) {
+                this.updateVariantsInEditor();
+            }
+        });
+    }
+
+    /**
+     * Adds an input for the group of the variant, e.g. "hero"
+     * Every variant of the group in the note gets the same options and active option.
+     */
+    private renderGroupInput(container: HTMLElement) {
+        const groupInput = container.createEl('input', {
+            cls: 'variant-editor-group-input',
+            attr: {
+                type: 'text',
+                placeholder: 'Group',
+                'aria-label': 'Variant group'
+            }
+        });
+        groupInput.value = this.group;
+
+        setTooltip(groupInput, 'Variants in the same group switch together across the note', {
+            placement: 'bottom'
+        });
+
+        groupInput.addEventListener('change', () => {
+            this.group = groupInput.value.trim();
+
+            // Same as typing: only update the editor once there is something to switch between
+            if (this.variants.filter(v => v.trim().length > 0).length >= 2) {
+                this.updateVariantsInEditor();
+            }
+        });
+    }
+
+    /**
+     * Adds a button that shows an input for a note on the variant, e.g. "editor suggested"
+     * The note is shown below the variant whenever it isn't empty
+     */
+    private renderNoteInput(variantRow: HTMLElement, index: number) {
+        const note = this.attributes[index]?.note ?? '';
+
+        const noteButton = variantRow.createEl('button', {
+            cls: 'variant-editor-note-button clickable-icon',
+            attr: {
+                'aria-label': note ? 'Edit note' : 'Add note'
+            }
+        });
+        setIcon(noteButton, 'message-square');
+        noteButton.toggleClass('has-note', note.length > 0);
+
+        setTooltip(noteButton, note ? 'Edit note' : 'Add note', {
+            placement: 'top'
+        });
+
+        // Placed on its own line below the variant by the stylesheet
+        const noteInput = variantRow.createEl('input', {
+            cls: 'variant-editor-note-input',
+            attr: {
+                type: 'text',
+                placeholder: 'Why this variant exists',
+                'aria-label': 'Note'
+            }
+        });
+        noteInput.value = note;
+        noteInput.toggle(note.length > 0);
+
+        noteButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            noteInput.show();
+            noteInput.focus();
+        });
+
+        noteInput.addEventListener('click', (e) => e.stopPropagation());
+        noteInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                noteInput.blur();
+            }
+        });
+
+        noteInput.addEventListener('change', () => {
+            const attributes = this.attributes[index] ?? (this.attributes[index] = {});
+            const value = noteInput.value.trim();
+            if (value) {
+                attributes.note = value;
+            } else {
+                delete attributes.note;
+            }
+            noteButton.toggleClass('has-note', value.length > 0);
+
+            if (this.variants.filter(v => v.trim().length > 0).length >= 2) {
+                this.updateVariantsInEditor();
+            }
+        });
+
+        noteInput.addEventListener('blur', () => {
+            if (!noteInput.value.trim()) {
+                noteInput.hide();
+            }
+        });
+    }
 
     onClose() {
         const { contentEl } = this;
@@ -882,6 +1134,6 @@ export class TextInputModal extends Modal {
 
         // Notify the parent that the modal was closed without committing
         // We pass an explicit modalClosed=true flag to indicate this was triggered by modal closing
-        this.onSubmit(this.variants[this.activeVariantIndex], this.activeVariantIndex, false, this.currentFrom, this.currentTo, true);
+        this.onSubmit([this.variants[this.activeVariantIndex]], this.activeVariantIndex, false, true);
     }
 }
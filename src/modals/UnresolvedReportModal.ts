@@ -0,0 +1,124 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { getActiveOption } from '../utils/variantSyntax';
+import { FileVariants, VariantOccurrence, getMarkdownFilesIn, scanVariants } from '../utils/vaultUtils';
+import { previewText } from '../utils/preview';
+
+// Longest option text shown for an occurrence
+const MAX_PREVIEW_LENGTH = 80;
+
+/**
+ * Modal that lists every note with unresolved variants in a folder (or the whole vault)
+ * Notes with out-of-range indices are flagged, and each occurrence links to its line.
+ * Variants in code or math are documentation, not open decisions, and are left out
+ * just like in the frontmatter property.
+ */
+export class UnresolvedReportModal extends Modal {
+    private folderPath: string;
+    private onOpenOccurrence: (file: TFile, occurrence: VariantOccurrence) => void;
+    private reportEl: HTMLElement;
+
+    constructor(
+        app: App,
+        folderPath: string,
+        onOpenOccurrence: (file: TFile, occurrence: VariantOccurrence) => void
+    ) {
+        super(app);
+        this.folderPath = folderPath;
+        this.onOpenOccurrence = onOpenOccurrence;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        this.setTitle('Unresolved variants');
+
+        new Setting(contentEl)
+            .setName('Folder')
+            .setDesc('Leave empty for the whole vault.')
+            .addText(text => text
+                .setPlaceholder('Whole vault')
+                .setValue(this.folderPath)
+                .onChange(value => this.folderPath = value))
+            .addButton(button => button
+                .setButtonText('Scan')
+                .setCta()
+                .onClick(() => this.scan()));
+
+        this.reportEl = contentEl.createDiv({ cls: 'variant-editor-report' });
+        this.scan();
+    }
+
+    private async scan() {
+        this.reportEl.empty();
+        this.reportEl.createEl('p', { text: 'Scanning…' });
+
+        const results = await scanVariants(this.app, getMarkdownFilesIn(this.app, this.folderPath));
+        this.renderReport(results.sort((a, b) => a.file.path.localeCompare(b.file.path)));
+    }
+
+    private renderReport(results: FileVariants[]) {
+        this.reportEl.empty();
+
+        if (results.length === 0) {
+            this.reportEl.createEl('p', { text: 'No unresolved variants. Everything is committed.' });
+            return;
+        }
+
+        const total = results.reduce((sum, result) => sum + result.occurrences.length, 0);
+        const invalid = results.reduce((sum, result) => sum + result.occurrences.filter(o => !getActiveOption(o.variant)).length, 0);
+
+        const summary = this.reportEl.createEl('p', {
+            text: `${total} unresolved variant${total === 1 ? '' : 's'} in ${results.length} note${results.length === 1 ? '' : 's'}.`
+        });
+        if (invalid > 0) {
+            summary.createSpan({
+                cls: 'variant-editor-report-warning',
+                text: ` ${invalid} ha${invalid === 1 ? 's an index' : 've indices'} out of range.`
+            });
+        }
+
+        for (const { file, occurrences } of results) {
+            const invalidInFile = occurrences.filter(o => !getActiveOption(o.variant)).length;
+
+            const details = this.reportEl.createEl('details');
+            const summaryEl = details.createEl('summary', { text: `${file.path} (${occurrences.length})` });
+            if (invalidInFile > 0) {
+                summaryEl.createSpan({
+                    cls: 'variant-editor-report-warning',
+                    text: ` ${invalidInFile} out of range`
+                });
+            }
+
+            const list = details.createEl('ul');
+            for (const occurrence of occurrences) {
+                const { variant, line } = occurrence;
+                const activeOption = getActiveOption(variant);
+                const item = list.createEl('li');
+
+                const link = item.createEl('a', {
+                    cls: 'variant-editor-report-link',
+                    text: `Line ${line + 1}`,
+                    href: '#'
+                });
+                link.addEventListener('click', (e) => {
+                    e.preventDefault();
+                    this.close();
+                    this.onOpenOccurrence(file, occurrence);
+                });
+
+                if (activeOption) {
+                    item.appendText(`: ${previewText(activeOption.text, MAX_PREVIEW_LENGTH)} (${variant.options.length} options)`);
+                } else {
+                    item.createSpan({
+                        cls: 'variant-editor-report-warning',
+                        text: `: index ${variant.activeIndex} but only ${variant.options.length} option${variant.options.length === 1 ? '' : 's'}`
+                    });
+                }
+            }
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
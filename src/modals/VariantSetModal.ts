@@ -0,0 +1,44 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from 'obsidian';
+
+interface VariantSetItem {
+    name: string;
+    // Number of variants with an option in this set
+    count: number;
+}
+
+/**
+ * Picker for the variant set to activate, listing every set found with its number of variants
+ */
+export class VariantSetModal extends FuzzySuggestModal<VariantSetItem> {
+    private sets: VariantSetItem[];
+    private onChoose: (set: string) => void;
+
+    constructor(app: App, sets: Map<string, number>, onChoose: (set: string) => void) {
+        super(app);
+        this.sets = [];
+        sets.forEach((count, name) => this.sets.push({ name, count }));
+        this.sets.sort((a, b) => a.name.localeCompare(b.name));
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a variant set to activate');
+    }
+
+    getItems(): VariantSetItem[] {
+        return this.sets;
+    }
+
+    getItemText(item: VariantSetItem): string {
+        return item.name;
+    }
+
+    renderSuggestion(match: FuzzyMatch<VariantSetItem>, el: HTMLElement) {
+        super.renderSuggestion(match, el);
+        el.createEl('small', {
+            cls: 'variant-editor-suggestion-note',
+            text: ` ${match.item.count} variant${match.item.count === 1 ? '' : 's'}`
+        });
+    }
+
+    onChooseItem(item: VariantSetItem) {
+        this.onChoose(item.name);
+    }
+}
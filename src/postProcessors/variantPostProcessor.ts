@@ -0,0 +1,153 @@
+import { App, MarkdownPostProcessor, MarkdownRenderChild, MarkdownRenderer, setTooltip } from 'obsidian';
+import { Variant, VariantDelimiters, getActiveDelimiters, getActiveOption, parseVariants } from '../utils/variantSyntax';
+import { parseMarkdownVariants } from '../utils/syntaxContext';
+
+export interface VariantPostProcessorOptions {
+  // Show a tooltip listing every option when hovering a rendered variant
+  showAlternatives: () => boolean;
+}
+
+// Elements whose text is shown verbatim and must never be resolved
+const VERBATIM_SELECTOR = 'pre, code, .math';
+
+/**
+ * Caches the variants of the last parsed document, since every section of a
+ * note is post-processed separately but shares the same source text
+ * Variants written in code or math are left out, since they render verbatim.
+ */
+let cachedSource: { text: string; delimiters: VariantDelimiters; variants: Variant[] } | null = null;
+
+function getVariants(text: string): Variant[] {
+  const delimiters = getActiveDelimiters();
+  if (!cachedSource || cachedSource.text !== text || cachedSource.delimiters !== delimiters) {
+    cachedSource = { text, delimiters, variants: parseMarkdownVariants(text) };
+  }
+  return cachedSource.variants;
+}
+
+/**
+ * Builds the tooltip that lists every option of a variant, marking the active one
+ */
+function describeOptions(variant: Variant): string {
+  return variant.options
+    .map((option, index) => `${index === variant.activeIndex ? '▸' : '•'} ${option.text}`)
+    .join('\n');
+}
+
+/**
+ * Creates a markdown post-processor that renders only the active option of each
+ * variant, so Reading view, embeds and exported PDFs match Live Preview
+ */
+export function createVariantPostProcessor(app: App, options: VariantPostProcessorOptions): MarkdownPostProcessor {
+  return async (el, ctx) => {
+    // Leave code and math blocks untouched
+    if (el.firstElementChild?.matches(VERBATIM_SELECTOR)) return;
+
+    const info = ctx.getSectionInfo(el);
+    if (!info) {
+      // Hover previews and some embeds have no source information,
+      // so fall back to resolving the rendered text directly
+      resolveTextNodes(el, options.showAlternatives());
+      return;
+    }
+
+    // Convert the section's line range to character offsets
+    const lines = info.text.split('\n');
+    let sectionFrom = 0;
+    for (let i = 0; i < info.lineStart; i++) {
+      sectionFrom += lines[i].length + 1;
+    }
+    const sectionTo = sectionFrom + lines.slice(info.lineStart, info.lineEnd + 1).join('\n').length;
+
+    const variants = getVariants(info.text).filter(v => v.from < sectionTo && v.to > sectionFrom);
+    if (variants.length === 0) return;
+
+    // Block variants with blank lines are split across several sections.
+    // The section where a variant starts renders all of it, and later sections
+    // skip whatever part of it they contain.
+    let renderFrom = sectionFrom;
+    let renderTo = sectionTo;
+    for (const variant of variants) {
+      if (variant.from < sectionFrom) renderFrom = Math.max(renderFrom, variant.to);
+      if (variant.to > sectionTo) renderTo = Math.max(renderTo, variant.to);
+    }
+
+    // Resolve every variant in the rendered range, keeping a reference to
+    // the inline ones so their alternatives can be shown on hover
+    const inlineVariants: Variant[] = [];
+    let markdown = '';
+    let lastIndex = renderFrom;
+    for (const variant of variants) {
+      if (variant.from < renderFrom) continue;
+
+      const activeOption = getActiveOption(variant);
+      if (!activeOption) continue;
+
+      markdown += info.text.slice(lastIndex, variant.from);
+      if (variant.block) {
+        markdown += activeOption.text;
+      } else {
+        markdown += `<span class="variant-rendered" data-variant="${inlineVariants.length}">${activeOption.text}</span>`;
+        inlineVariants.push(variant);
+      }
+      lastIndex = variant.to;
+    }
+    if (lastIndex < renderTo) {
+      markdown += info.text.slice(lastIndex, renderTo);
+    }
+
+    el.empty();
+    if (!markdown.trim()) return;
+
+    const child = new MarkdownRenderChild(el);
+    ctx.addChild(child);
+    await MarkdownRenderer.render(app, markdown, el, ctx.sourcePath, child);
+
+    if (options.showAlternatives()) {
+      el.querySelectorAll<HTMLElement>('.variant-rendered').forEach(span => {
+        const variant = inlineVariants[parseInt(span.dataset.variant ?? '', 10)];
+        if (variant && variant.options.length > 1) {
+          setTooltip(span, describeOptions(variant), { placement: 'top' });
+        }
+      });
+    }
+  };
+}
+
+/**
+ * Replaces variants found in the text nodes of an element with their active option
+ * This can't see variants that were split up by markdown formatting, so it's only
+ * used when the source of the element is unknown
+ */
+function resolveTextNodes(el: HTMLElement, showAlternatives: boolean): void {
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (node.nodeValue?.includes(getActiveDelimiters().open) && !node.parentElement?.closest(VERBATIM_SELECTOR)) {
+      textNodes.push(node);
+    }
+  }
+
+  for (const node of textNodes) {
+    const text = node.nodeValue ?? '';
+    const variants = parseVariants(text).filter(v => !v.block && getActiveOption(v));
+    if (variants.length === 0) continue;
+
+    const fragment = document.createDocumentFragment();
+    let lastIndex = 0;
+    for (const variant of variants) {
+      fragment.append(text.slice(lastIndex, variant.from));
+
+      const span = createSpan({ cls: 'variant-rendered', text: getActiveOption(variant)?.text });
+      if (showAlternatives && variant.options.length > 1) {
+        setTooltip(span, describeOptions(variant), { placement: 'top' });
+      }
+      fragment.append(span);
+
+      lastIndex = variant.to;
+    }
+    fragment.append(text.slice(lastIndex));
+    node.replaceWith(fragment);
+  }
+}
@@ -0,0 +1,316 @@
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
+import type VariantEditor from './main';
+import { DEFAULT_DELIMITERS, VariantDelimiters, validateDelimiters } from './utils/variantSyntax';
+
+// What the options in the variant editor are compared against, if anything
+export type DiffMode = 'off' | 'original' | 'active';
+
+export const DIFF_MODE_NAMES: Record<DiffMode, string> = {
+  off: 'No differences',
+  original: 'Differences from original',
+  active: 'Differences from active'
+};
+
+export interface VariantEditorSettings {
+  // Dim every line except the one with the variant being edited
+  dimOtherLines: boolean;
+  dimOpacity: number;
+  // Open the variant editor next to the selection instead of centered
+  positionModalNearSelection: boolean;
+  // Height reserved for the variant editor when deciding whether it fits below the selection
+  modalMaxHeight: number;
+  // Highlight the words each option adds or removes
+  diffMode: DiffMode;
+  // Show word count, character count and reading ease below each option
+  showOptionStats: boolean;
+  // Open the variant editor after jumping to the next or previous variant
+  openEditorOnNavigate: boolean;
+  // Show a menu of the options when a variant is clicked, instead of the variant editor
+  showOptionPicker: boolean;
+  showNotices: boolean;
+  // Show a word count of the active options in the status bar
+  showStatusBarCount: boolean;
+  showContextMenu: boolean;
+  // Show the alternatives of a variant when hovering it in Reading view
+  showReadingTooltips: boolean;
+  delimiters: VariantDelimiters;
+  // Keep options that are deleted or not chosen when committing in a note of the vault
+  archiveDiscardedOptions: boolean;
+  archivePath: string;
+  // Keep a frontmatter property with the number of unresolved variants in each note
+  trackOpenVariants: boolean;
+  openVariantsProperty: string;
+}
+
+export const DEFAULT_SETTINGS: VariantEditorSettings = {
+  dimOtherLines: true,
+  dimOpacity: 0.25,
+  positionModalNearSelection: true,
+  modalMaxHeight: 455,
+  diffMode: 'off',
+  showOptionStats: true,
+  openEditorOnNavigate: false,
+  showOptionPicker: true,
+  showNotices: true,
+  showStatusBarCount: true,
+  showContextMenu: true,
+  showReadingTooltips: true,
+  delimiters: DEFAULT_DELIMITERS,
+  archiveDiscardedOptions: true,
+  archivePath: 'Variant archive.md',
+  trackOpenVariants: false,
+  openVariantsProperty: 'variants_open'
+};
+
+/**
+ * Settings tab for the variant editor
+ * Every change is saved right away and applied to open editors
+ */
+export class VariantEditorSettingTab extends PluginSettingTab {
+  constructor(app: App, private plugin: VariantEditor) {
+    super(app, plugin);
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl).setName('Editing').setHeading();
+
+    new Setting(containerEl)
+      .setName('Dim other lines')
+      .setDesc('Fade out the rest of the note while a variant is being edited.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.dimOtherLines)
+        .onChange(async (value) => {
+          this.plugin.settings.dimOtherLines = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Dimmed line opacity')
+      .setDesc('How visible the dimmed lines stay.')
+      .addSlider(slider => slider
+        .setLimits(0.05, 0.9, 0.05)
+        .setValue(this.plugin.settings.dimOpacity)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.dimOpacity = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Show context menu entry')
+      .setDesc('Add "Create variant from selection" to the editor\'s right-click menu.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showContextMenu)
+        .onChange(async (value) => {
+          this.plugin.settings.showContextMenu = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Show notices')
+      .setDesc('Show a notice when variants are created, edited or committed. Errors are always shown.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showNotices)
+        .onChange(async (value) => {
+          this.plugin.settings.showNotices = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Show word count')
+      .setDesc('Show a word and character count in the status bar that only counts the active option of each variant. Hover it to see the count with every option.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showStatusBarCount)
+        .onChange(async (value) => {
+          this.plugin.settings.showStatusBarCount = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl).setName('Variant editor').setHeading();
+
+    new Setting(containerEl)
+      .setName('Open next to the selection')
+      .setDesc('Position the variant editor below or above the edited line. When off, it opens centered.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.positionModalNearSelection)
+        .onChange(async (value) => {
+          this.plugin.settings.positionModalNearSelection = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Pick options on click')
+      .setDesc('Clicking a variant lists its options in a menu for a quick switch, with "More…" for the full variant editor. When off, clicking opens the variant editor directly.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showOptionPicker)
+        .onChange(async (value) => {
+          this.plugin.settings.showOptionPicker = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Open when navigating')
+      .setDesc('Open the variant editor after "Go to next variant" or "Go to previous variant" selects a variant.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.openEditorOnNavigate)
+        .onChange(async (value) => {
+          this.plugin.settings.openEditorOnNavigate = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Reserved height')
+      .setDesc('Height in pixels the variant editor needs below the line before it opens above it instead.')
+      .addText(text => this.bindNumber(text.inputEl, 'modalMaxHeight', 100));
+
+    new Setting(containerEl)
+      .setName('Highlight differences')
+      .setDesc('Show the words each option adds or removes compared to the original or the active option. Can also be changed in the variant editor.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(DIFF_MODE_NAMES)
+        .setValue(this.plugin.settings.diffMode)
+        .onChange(async (value) => {
+          this.plugin.settings.diffMode = value as DiffMode;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Show statistics')
+      .setDesc('Show the word count, character count and Flesch reading ease of each option.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showOptionStats)
+        .onChange(async (value) => {
+          this.plugin.settings.showOptionStats = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl).setName('Syntax').setHeading();
+
+    new Setting(containerEl)
+      .setDesc('Changing the delimiters doesn\'t convert existing notes. Use the "Migrate variant delimiters" command to rewrite them.');
+
+    new Setting(containerEl)
+      .setName('Opening delimiter')
+      .addText(text => this.bindDelimiter(text.inputEl, 'open'));
+
+    new Setting(containerEl)
+      .setName('Option separator')
+      .addText(text => this.bindDelimiter(text.inputEl, 'separator'));
+
+    new Setting(containerEl)
+      .setName('Closing delimiter')
+      .addText(text => this.bindDelimiter(text.inputEl, 'close'));
+
+    new Setting(containerEl)
+      .setName('Index marker')
+      .setDesc('Comes between the closing delimiter and the active option\'s index.')
+      .addText(text => this.bindDelimiter(text.inputEl, 'indexMarker'));
+
+    new Setting(containerEl)
+      .setName('Reset to defaults')
+      .addButton(button => button
+        .setButtonText('Reset')
+        .onClick(async () => {
+          this.plugin.settings.delimiters = { ...DEFAULT_DELIMITERS };
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    new Setting(containerEl).setName('Archive').setHeading();
+
+    new Setting(containerEl)
+      .setName('Archive discarded variants')
+      .setDesc('Save variants you delete in the variant editor, and the ones left out when committing, to an archive note.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.archiveDiscardedOptions)
+        .onChange(async (value) => {
+          this.plugin.settings.archiveDiscardedOptions = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Archive note')
+      .setDesc('Path of the archive note in your vault. It\'s created when the first variant is archived.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.archivePath)
+        .setValue(this.plugin.settings.archivePath)
+        .onChange(async (value) => {
+          this.plugin.settings.archivePath = value.trim() || DEFAULT_SETTINGS.archivePath;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl).setName('Properties').setHeading();
+
+    new Setting(containerEl)
+      .setName('Track unresolved variants')
+      .setDesc('Keep a property with the number of unresolved variants in each note up to date, for Dataview or Bases dashboards. Run "Update unresolved variant counts" once to fill it in for existing notes.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.trackOpenVariants)
+        .onChange(async (value) => {
+          this.plugin.settings.trackOpenVariants = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Property name')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.openVariantsProperty)
+        .setValue(this.plugin.settings.openVariantsProperty)
+        .onChange(async (value) => {
+          this.plugin.settings.openVariantsProperty = value.trim() || DEFAULT_SETTINGS.openVariantsProperty;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl).setName('Reading view').setHeading();
+
+    new Setting(containerEl)
+      .setName('Show alternatives on hover')
+      .setDesc('List the other options of a variant when hovering it in Reading view.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showReadingTooltips)
+        .onChange(async (value) => {
+          this.plugin.settings.showReadingTooltips = value;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  /**
+   * Binds a text input to one of the variant delimiters
+   * The change is only saved if the resulting delimiters can still be parsed
+   */
+  private bindDelimiter(inputEl: HTMLInputElement, key: keyof VariantDelimiters): void {
+    inputEl.value = this.plugin.settings.delimiters[key];
+    inputEl.addEventListener('change', async () => {
+      const delimiters = { ...this.plugin.settings.delimiters, [key]: inputEl.value };
+      const error = validateDelimiters(delimiters);
+      if (error) {
+        new Notice(error);
+        inputEl.value = this.plugin.settings.delimiters[key];
+        return;
+      }
+      this.plugin.settings.delimiters = delimiters;
+      await this.plugin.saveSettings();
+    });
+  }
+
+  /**
+   * Binds a number input to a numeric setting, ignoring values below the minimum
+   */
+  private bindNumber(inputEl: HTMLInputElement, key: 'modalMaxHeight', min: number): void {
+    inputEl.type = 'number';
+    inputEl.min = min.toString();
+    inputEl.value = this.plugin.settings[key].toString();
+    inputEl.addEventListener('change', async () => {
+      const value = parseInt(inputEl.value, 10);
+      if (isNaN(value) || value < min) {
+        inputEl.value = this.plugin.settings[key].toString();
+        return;
+      }
+      this.plugin.settings[key] = value;
+      await this.plugin.saveSettings();
+    });
+  }
+}
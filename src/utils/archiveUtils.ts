@@ -0,0 +1,85 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+
+export type ArchiveReason = 'deleted' | 'committed';
+
+/**
+ * An option that was deleted from a variant or dropped when it was committed
+ */
+export interface ArchiveEntry {
+  text: string;
+  // Path of the note the option came from
+  source: string;
+  // 1-based line of the variant in that note
+  line: number;
+  time: number;
+  reason: ArchiveReason;
+}
+
+// Marks the machine-readable copy of each entry, hidden in an HTML comment
+const ENTRY_MARKER = 'variant-archive';
+const ENTRY_PATTERN = new RegExp(`<!-- ${ENTRY_MARKER} (.*?) -->`, 'g');
+
+/**
+ * Formats an entry as a heading, the hidden entry data and the option as a quote
+ */
+function formatEntry(entry: ArchiveEntry): string {
+  const date = moment(entry.time).format('YYYY-MM-DD HH:mm');
+  const action = entry.reason === 'deleted' ? 'Deleted from' : 'Not chosen in';
+  const link = entry.source.replace(/\.md$/, '');
+  // Escaping ">" keeps the JSON from ending the comment early
+  const data = JSON.stringify(entry).replace(/>/g, '\\u003e');
+  const quote = entry.text.split('\n').map(line => `> ${line}`).join('\n');
+
+  return `### ${action} [[${link}]], line ${entry.line} (${date})\n<!-- ${ENTRY_MARKER} ${data} -->\n${quote}\n`;
+}
+
+/**
+ * Appends options to the archive note, creating it if needed
+ * @param archivePath Path of the archive note in the vault
+ */
+export async function appendToArchive(app: App, archivePath: string, entries: ArchiveEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const path = normalizePath(archivePath);
+  const text = entries.map(formatEntry).join('\n');
+
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing instanceof TFile) {
+    await app.vault.process(existing, data => `${data.trimEnd()}\n\n${text}`);
+    return;
+  }
+
+  // Create any missing parent folders first
+  const folderPath = path.substring(0, path.lastIndexOf('/'));
+  if (folderPath && !app.vault.getAbstractFileByPath(folderPath)) {
+    await app.vault.createFolder(folderPath);
+  }
+  await app.vault.create(path, `# Variant archive\n\n${text}`);
+}
+
+/**
+ * Reads every entry in the archive note, newest first
+ * Entries whose data was edited by hand and no longer parses are skipped
+ */
+export async function readArchive(app: App, archivePath: string): Promise<ArchiveEntry[]> {
+  const file = app.vault.getAbstractFileByPath(normalizePath(archivePath));
+  if (!(file instanceof TFile)) return [];
+
+  const content = await app.vault.cachedRead(file);
+  const entries: ArchiveEntry[] = [];
+  let match: RegExpExecArray | null;
+
+  ENTRY_PATTERN.lastIndex = 0;
+  while ((match = ENTRY_PATTERN.exec(content)) !== null) {
+    try {
+      const entry = JSON.parse(match[1]) as ArchiveEntry;
+      if (typeof entry.text === 'string') {
+        entries.push(entry);
+      }
+    } catch (e) {
+      console.warn('Skipping unreadable archive entry:', match[1]);
+    }
+  }
+
+  return entries.sort((a, b) => b.time - a.time);
+}
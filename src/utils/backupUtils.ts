@@ -0,0 +1,78 @@
+import { App, TFile, normalizePath } from 'obsidian';
+
+// Older backups are deleted once there are more than this many
+const MAX_BACKUPS = 5;
+
+interface Backup {
+  created: number;
+  files: Record<string, string>;
+}
+
+/**
+ * Saves the current content of a set of notes as a single backup
+ * Backups are stored in the plugin folder so they don't show up in the vault
+ * @param backupDir The folder holding the backups
+ */
+export async function createBackup(app: App, backupDir: string, files: TFile[]): Promise<void> {
+  const adapter = app.vault.adapter;
+  const dir = normalizePath(backupDir);
+
+  if (!(await adapter.exists(dir))) {
+    await adapter.mkdir(dir);
+  }
+
+  const backup: Backup = { created: Date.now(), files: {} };
+  for (const file of files) {
+    backup.files[file.path] = await app.vault.read(file);
+  }
+  await adapter.write(`${dir}/${backup.created}.json`, JSON.stringify(backup));
+
+  // Drop the oldest backups
+  const backups = await listBackups(app, dir);
+  for (const path of backups.slice(MAX_BACKUPS)) {
+    await adapter.remove(path);
+  }
+}
+
+/**
+ * Returns the paths of all backups, newest first
+ */
+async function listBackups(app: App, dir: string): Promise<string[]> {
+  if (!(await app.vault.adapter.exists(dir))) {
+    return [];
+  }
+
+  const { files } = await app.vault.adapter.list(dir);
+  return files
+    .filter(path => path.endsWith('.json'))
+    .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+}
+
+/**
+ * Writes the newest backup back into the vault and deletes it
+ * @returns The number of restored notes and the paths that no longer exist, or null if there is no backup
+ */
+export async function restoreLatestBackup(
+  app: App,
+  backupDir: string
+): Promise<{ restored: number; missing: string[] } | null> {
+  const [latest] = await listBackups(app, normalizePath(backupDir));
+  if (!latest) return null;
+
+  const backup: Backup = JSON.parse(await app.vault.adapter.read(latest));
+  let restored = 0;
+  const missing: string[] = [];
+
+  for (const path of Object.keys(backup.files)) {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      await app.vault.process(file, () => backup.files[path]);
+      restored++;
+    } else {
+      missing.push(path);
+    }
+  }
+
+  await app.vault.adapter.remove(latest);
+  return { restored, missing };
+}
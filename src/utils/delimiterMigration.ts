@@ -0,0 +1,42 @@
+import { VariantDelimiters, serializeVariant } from './variantSyntax';
+import { parseMarkdownVariants } from './syntaxContext';
+
+export interface DelimiterMigrationResult {
+  text: string;
+  // Number of variants rewritten to the new delimiters
+  variants: number;
+  // Number of places outside variants that would already parse as the new syntax
+  conflicts: number;
+}
+
+/**
+ * Rewrites every variant in a text from one delimiter scheme to another
+ * Options are re-escaped for the new delimiters, so their content is unchanged.
+ * Code and math are left as written.
+ */
+export function migrateDelimiters(text: string, from: VariantDelimiters, to: VariantDelimiters): DelimiterMigrationResult {
+  const variants = parseMarkdownVariants(text, 0, from);
+
+  // Text that already looks like the new syntax would turn into variants by accident
+  const conflicts = parseMarkdownVariants(text, 0, to)
+    .filter(candidate => !variants.some(variant => candidate.from < variant.to && candidate.to > variant.from))
+    .length;
+
+  let result = '';
+  let lastIndex = 0;
+  for (const variant of variants) {
+    result += text.slice(lastIndex, variant.from);
+    result += serializeVariant(
+      variant.options.map(option => option.text),
+      variant.activeIndex,
+      to,
+      variant.block,
+      variant.options.map(option => option.attributes),
+      variant.attributes
+    );
+    lastIndex = variant.to;
+  }
+  result += text.slice(lastIndex);
+
+  return { text: result, variants: variants.length, conflicts };
+}
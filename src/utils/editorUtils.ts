@@ -1,4 +1,14 @@
 import { Editor, MarkdownView } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+
+/**
+ * Returns the CodeMirror view behind an Obsidian editor
+ * Obsidian doesn't expose it in its typings, so this is the one place that reaches for it.
+ * @param editor The editor of a MarkdownView
+ */
+export function getEditorView(editor: Editor): EditorView | undefined {
+  return (editor as Editor & { cm?: EditorView }).cm;
+}
 
 /**
  * Forces a complete re-render of the editor using a zero-width space hack
@@ -24,7 +34,7 @@ export function hackToRerender(view: MarkdownView): void {
         editor.replaceRange("", pos, { line: pos.line, ch: pos.ch + 1 }); // Remove it
         
         // Also try to access the CM editor view directly if possible
-        const editorView = (view.editor as any).cm;
+        const editorView = getEditorView(editor);
         if (editorView) {
           // Force a complete redraw
           editorView.requestMeasure();
@@ -0,0 +1,106 @@
+import { ChangeDesc, Text, Transaction } from '@codemirror/state';
+import { Variant, getActiveDelimiters, parseVariants } from './variantSyntax';
+
+/**
+ * A range of whole lines, as document offsets
+ */
+export interface LineRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Returns the whole lines of the new document touched by each change, merging overlapping ranges
+ */
+export function getChangedLines(changes: ChangeDesc, doc: Text): LineRange[] {
+  const ranges: LineRange[] = [];
+  changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+    const from = doc.lineAt(fromB).from;
+    const to = doc.lineAt(toB).to;
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last.to + 1) {
+      last.to = Math.max(last.to, to);
+    } else {
+      ranges.push({ from, to });
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Moves a variant that no change touched to its position in the new document
+ */
+function mapVariant(variant: Variant, changes: ChangeDesc): Variant {
+  return {
+    ...variant,
+    from: changes.mapPos(variant.from),
+    to: changes.mapPos(variant.to),
+    indexFrom: changes.mapPos(variant.indexFrom),
+    indexTo: changes.mapPos(variant.indexTo),
+    options: variant.options.map(option => ({
+      ...option,
+      from: changes.mapPos(option.from),
+      to: changes.mapPos(option.to)
+    }))
+  };
+}
+
+/**
+ * Parses the block variants of a whole document
+ */
+export function parseBlockVariants(doc: Text): Variant[] {
+  return parseVariants(doc.toString()).filter(variant => variant.block);
+}
+
+/**
+ * Brings the block variants of a document up to date after a transaction
+ * Typing outside the syntax only moves the variants, and typing inside a variant reparses
+ * just that variant. Changes that could start or end a block variant somewhere else,
+ * such as line breaks or delimiters, reparse the whole document.
+ */
+export function updateBlockVariants(variants: Variant[], transaction: Transaction): Variant[] {
+  const { changes, startState, state } = transaction;
+  const { open, close, separator, indexMarker } = getActiveDelimiters();
+  const delimiterChars = open + close + separator + indexMarker + '\\';
+  // Line breaks and index digits also change the syntax when typed or deleted
+  const syntaxChars = delimiterChars + '\n0123456789';
+  const contains = (text: string, chars: string) => text.split('').some(ch => chars.includes(ch));
+
+  let structural = false;
+  const touched = new Set<Variant>();
+  changes.iterChanges((fromA, toA, fromB, toB, inserted) => {
+    const changed = startState.doc.sliceString(fromA, toA) + inserted.toString();
+    // The characters around the change may now form a delimiter together
+    const around = state.doc.sliceString(Math.max(0, fromB - 1), fromB) + state.doc.sliceString(toB, toB + 1);
+    // An empty line may be the missing option of a block variant that didn't parse before
+    if (contains(changed, syntaxChars) || contains(around, delimiterChars) || startState.doc.lineAt(fromA).length === 0) {
+      structural = true;
+    }
+
+    for (const variant of variants) {
+      if (fromA <= variant.to && toA >= variant.from) touched.add(variant);
+    }
+  });
+
+  if (structural || touched.size > 1) {
+    return parseBlockVariants(state.doc);
+  }
+
+  const updated: Variant[] = [];
+  for (const variant of variants) {
+    if (!touched.has(variant)) {
+      updated.push(mapVariant(variant, changes));
+      continue;
+    }
+
+    // Reparse the lines of the variant that was typed in
+    const from = state.doc.lineAt(changes.mapPos(variant.from, -1)).from;
+    const to = state.doc.lineAt(changes.mapPos(variant.to, 1)).to;
+    const reparsed = parseVariants(state.doc.sliceString(from, to), from).filter(v => v.block);
+    if (reparsed.length !== 1) {
+      return parseBlockVariants(state.doc);
+    }
+    updated.push(reparsed[0]);
+  }
+  return updated;
+}
@@ -0,0 +1,8 @@
+/**
+ * Shortens text to a single line for lists and menus, ending it with an ellipsis if it's too long
+ * @param lineBreak What each line break and the whitespace around it is shown as
+ */
+export function previewText(text: string, maxLength: number, lineBreak: string = ' '): string {
+  const singleLine = text.replace(/\s*\n\s*/g, lineBreak);
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}…` : singleLine;
+}
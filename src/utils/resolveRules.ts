@@ -0,0 +1,51 @@
+import { Variant } from './variantSyntax';
+
+/**
+ * Rules for picking which option replaces a variant when it's resolved
+ */
+export type ResolveRule = 'active' | 'index' | 'first' | 'last' | 'longest' | 'shortest';
+
+export const RESOLVE_RULE_NAMES: Record<ResolveRule, string> = {
+  active: 'Active option',
+  index: 'Option at index',
+  first: 'Original (first) option',
+  last: 'Last option',
+  longest: 'Longest option',
+  shortest: 'Shortest option'
+};
+
+/**
+ * Creates a chooser for resolveVariants that applies a rule to every variant
+ * @param index The option index used by the 'index' rule. Variants without
+ * that many options fall back to their active option.
+ */
+export function createOptionChooser(rule: ResolveRule, index: number = 0): (variant: Variant) => number {
+  switch (rule) {
+    case 'index':
+      return variant => index < variant.options.length ? index : variant.activeIndex;
+    case 'first':
+      return () => 0;
+    case 'last':
+      return variant => variant.options.length - 1;
+    case 'longest':
+      return variant => pickByLength(variant, (a, b) => a > b);
+    case 'shortest':
+      return variant => pickByLength(variant, (a, b) => a < b);
+    default:
+      return variant => variant.activeIndex;
+  }
+}
+
+/**
+ * Returns the index of the option whose length wins the comparison,
+ * preferring the earliest option on ties
+ */
+function pickByLength(variant: Variant, wins: (length: number, best: number) => boolean): number {
+  let bestIndex = 0;
+  variant.options.forEach((option, i) => {
+    if (wins(option.text.length, variant.options[bestIndex].text.length)) {
+      bestIndex = i;
+    }
+  });
+  return bestIndex;
+}
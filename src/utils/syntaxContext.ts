@@ -0,0 +1,194 @@
+import { ensureSyntaxTree, syntaxTree } from '@codemirror/language';
+import { ChangeSet, EditorState, Text } from '@codemirror/state';
+import { Variant, VariantDelimiters, getActiveDelimiters, parseVariants } from './variantSyntax';
+
+// The Lezer tree type, without depending on @lezer/common directly
+type Tree = ReturnType<typeof syntaxTree>;
+
+// Obsidian names the nodes of its markdown tree after the CSS classes of each token,
+// such as "hmd-codeblock_HyperMD-codeblock" or "formatting-math_formatting-math-begin_math"
+const CODE_OR_MATH_NODE = /inline-code|codeblock|math/;
+
+// How long commands may spend parsing the rest of a note before falling back to the partial tree
+const PARSE_TIMEOUT = 200;
+
+/**
+ * Checks whether a position lies in a code span, code block or math in the markdown syntax tree
+ * Positions the parser hasn't reached yet count as plain text.
+ */
+export function isInCodeOrMath(tree: Tree, pos: number): boolean {
+  let node: ReturnType<Tree['resolveInner']> | null = tree.resolveInner(pos, 1);
+  for (; node; node = node.parent) {
+    if (CODE_OR_MATH_NODE.test(node.type.name)) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns the syntax tree of an editor, parsing up to a position if that's quick enough
+ */
+export function getSyntaxTree(state: EditorState, upto: number = state.doc.length): Tree {
+  return ensureSyntaxTree(state, upto, PARSE_TIMEOUT) ?? syntaxTree(state);
+}
+
+/**
+ * Parses the variants of an editor's document, leaving out those written in code or math
+ */
+export function parseEditorVariants(state: EditorState): Variant[] {
+  const tree = getSyntaxTree(state);
+  return parseVariants(state.doc.toString()).filter(variant => !isInCodeOrMath(tree, variant.from));
+}
+
+/**
+ * Checks whether changes type or delete characters that open or close code or math,
+ * which can change the context of text far away from the change
+ */
+export function changesCodeOrMath(changes: ChangeSet, startDoc: Text): boolean {
+  let found = false;
+  changes.iterChanges((fromA, toA, fromB, toB, inserted) => {
+    if (/[`~$]/.test(startDoc.sliceString(fromA, toA) + inserted.toString())) found = true;
+  });
+  return found;
+}
+
+/**
+ * A range of markdown source shown verbatim, as offsets into the text
+ */
+export interface VerbatimRange {
+  from: number;
+  to: number;
+}
+
+// The opening or closing line of a fenced code block
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Finds the code blocks, code spans and math in markdown source without a syntax tree,
+ * for when the text isn't open in an editor
+ */
+export function findCodeAndMathRanges(text: string): VerbatimRange[] {
+  const ranges: VerbatimRange[] = [];
+  let fence: { marker: string; from: number } | null = null;
+  let inlineFrom = 0;
+
+  let lineFrom = 0;
+  while (lineFrom <= text.length) {
+    const lineEnd = text.indexOf('\n', lineFrom);
+    const lineTo = lineEnd === -1 ? text.length : lineEnd;
+    const match = FENCE.exec(text.slice(lineFrom, lineTo));
+
+    if (fence) {
+      // A fence closes with at least as many of the same characters and nothing after them
+      if (match && match[1][0] === fence.marker[0] && match[1].length >= fence.marker.length &&
+          !text.slice(lineFrom + match[0].length, lineTo).trim()) {
+        ranges.push({ from: fence.from, to: lineTo });
+        fence = null;
+        inlineFrom = lineTo;
+      }
+    } else if (match) {
+      ranges.push(...findInlineCodeAndMath(text, inlineFrom, lineFrom));
+      fence = { marker: match[1], from: lineFrom };
+    }
+
+    if (lineEnd === -1) break;
+    lineFrom = lineEnd + 1;
+  }
+
+  // A fence that is never closed runs to the end of the text
+  if (fence) {
+    ranges.push({ from: fence.from, to: text.length });
+  } else {
+    ranges.push(...findInlineCodeAndMath(text, inlineFrom, text.length));
+  }
+  return ranges.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Finds code spans, inline math and math blocks between two offsets of text outside code blocks
+ */
+function findInlineCodeAndMath(text: string, from: number, to: number): VerbatimRange[] {
+  const ranges: VerbatimRange[] = [];
+  let pos = from;
+  while (pos < to) {
+    const ch = text[pos];
+    if (ch === '\\') {
+      pos += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      // A code span closes with a run of exactly as many backticks
+      let runEnd = pos;
+      while (runEnd < to && text[runEnd] === '`') runEnd++;
+      const marker = text.slice(pos, runEnd);
+      let search = runEnd;
+      let close = -1;
+      while ((search = text.indexOf(marker, search)) !== -1 && search < to) {
+        if (text[search + marker.length] !== '`' && text[search - 1] !== '`') {
+          close = search;
+          break;
+        }
+        while (text[search] === '`') search++;
+      }
+      if (close === -1) {
+        pos = runEnd;
+        continue;
+      }
+      ranges.push({ from: pos, to: close + marker.length });
+      pos = close + marker.length;
+      continue;
+    }
+
+    if (ch === '$') {
+      const display = text[pos + 1] === '$';
+      const close = display ? findMathEnd(text, pos + 2, to, '$$') : findMathEnd(text, pos + 1, to, '$');
+      if (close !== -1) {
+        ranges.push({ from: pos, to: close });
+        pos = close;
+        continue;
+      }
+    }
+    pos++;
+  }
+  return ranges;
+}
+
+/**
+ * Returns the offset after the math closing at a marker, or -1 if it never closes
+ * Inline math can't start or end with a space and stays within its paragraph.
+ */
+function findMathEnd(text: string, from: number, to: number, marker: string): number {
+  if (marker === '$' && /\s/.test(text[from] ?? ' ')) return -1;
+
+  for (let pos = from; pos < to; pos++) {
+    if (text[pos] === '\\') {
+      pos++;
+    } else if (marker === '$' && text.startsWith('\n\n', pos)) {
+      return -1;
+    } else if (text.startsWith(marker, pos)) {
+      if (marker === '$' && (pos === from || /\s/.test(text[pos - 1]))) return -1;
+      return pos + marker.length;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Checks whether an offset lies in one of the given verbatim ranges
+ */
+export function isInRanges(ranges: VerbatimRange[], pos: number): boolean {
+  return ranges.some(range => range.from <= pos && pos < range.to);
+}
+
+/**
+ * Parses the variants of markdown source, leaving out those written in code or math
+ * @param offset The offset of the text in the note, added to the variant positions
+ */
+export function parseMarkdownVariants(
+  text: string,
+  offset: number = 0,
+  delimiters: VariantDelimiters = getActiveDelimiters()
+): Variant[] {
+  const verbatim = findCodeAndMathRanges(text);
+  return parseVariants(text, offset, delimiters).filter(variant => !isInRanges(verbatim, variant.from - offset));
+}
@@ -0,0 +1,123 @@
+import { Variant, getActiveOption, resolveVariantList } from './variantSyntax';
+import { parseMarkdownVariants } from './syntaxContext';
+
+export interface TextStats {
+  words: number;
+  characters: number;
+  // Flesch reading ease, higher is easier; null for text without words
+  readingEase: number | null;
+}
+
+/**
+ * Word counts of a note under different choices of options
+ */
+export interface NoteLengths {
+  active: number;
+  original: number;
+  shortest: number;
+  longest: number;
+}
+
+/**
+ * Word and character counts of a text with only the active options, and with every option
+ */
+export interface VariantCounts {
+  words: number;
+  characters: number;
+  allWords: number;
+  allCharacters: number;
+}
+
+/**
+ * Returns the words of a text, ignoring tokens without letters or digits such as list markers
+ */
+function getWords(text: string): string[] {
+  return text.split(/\s+/).filter(token => /[\p{L}\p{N}]/u.test(token));
+}
+
+export function countWords(text: string): number {
+  return getWords(text).length;
+}
+
+/**
+ * Estimates the syllables of an English word from its vowel groups
+ */
+function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+
+  // A final silent "e" (but not "-le") doesn't add a syllable
+  const groups = letters.replace(/(?:[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 0);
+}
+
+/**
+ * Counts words and characters and computes the Flesch reading ease of a text
+ */
+export function getTextStats(text: string): TextStats {
+  const words = getWords(text);
+  if (words.length === 0) {
+    return { words: 0, characters: text.length, readingEase: null };
+  }
+
+  const sentences = Math.max(1, (text.match(/[.!?]+(?=\s|$)/g) ?? []).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const readingEase = 206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length);
+
+  return { words: words.length, characters: text.length, readingEase: Math.round(readingEase) };
+}
+
+/**
+ * Counts a text the way a reader sees it, with only the active option of each variant,
+ * and with every option for comparison
+ */
+export function countVariantText(text: string): VariantCounts {
+  const variants = parseMarkdownVariants(text);
+  const active = resolveVariantList(text, variants).text;
+  // Join the options with spaces so neighbouring options aren't counted as one word
+  const all = resolveAllOptions(text, variants);
+
+  return {
+    words: countWords(active),
+    characters: active.length,
+    allWords: countWords(all),
+    allCharacters: all.length
+  };
+}
+
+/**
+ * Replaces every variant with all of its options, without the syntax
+ */
+function resolveAllOptions(text: string, variants: Variant[]): string {
+  let result = '';
+  let lastIndex = 0;
+  for (const variant of variants) {
+    result += text.slice(lastIndex, variant.from) + variant.options.map(option => option.text).join(' ');
+    lastIndex = variant.to;
+  }
+  return result + text.slice(lastIndex);
+}
+
+/**
+ * Counts the words of a note with the active options, the original options,
+ * and the shortest and longest option of every variant
+ */
+export function getNoteLengths(text: string): NoteLengths {
+  const variants = parseMarkdownVariants(text);
+  const active = countWords(resolveVariantList(text, variants).text);
+  const original = countWords(resolveVariantList(text, variants, () => 0).text);
+
+  let shortest = active;
+  let longest = active;
+  for (const variant of variants) {
+    const activeOption = getActiveOption(variant);
+    if (!activeOption) continue;
+
+    const activeWords = countWords(activeOption.text);
+    const optionWords = variant.options.map(option => countWords(option.text));
+    shortest += Math.min(...optionWords) - activeWords;
+    longest += Math.max(...optionWords) - activeWords;
+  }
+
+  return { active, original, shortest, longest };
+}
@@ -0,0 +1,91 @@
+import { EditorState, StateEffect, StateField, TransactionSpec } from '@codemirror/state';
+
+/**
+ * The range of a variant being edited, as document offsets
+ */
+export interface TrackedRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Starts tracking ranges in document order, or stops tracking with an empty list
+ * Several ranges are tracked when one variant editor drives linked variants at several selections.
+ */
+export const setTrackedVariants = StateEffect.define<TrackedRange[]>();
+
+/**
+ * Holds the ranges of the variants open in the variant editor and maps them through every change,
+ * so edits elsewhere in the document never move them onto different text.
+ * Text typed right before or after a variant stays outside its range.
+ */
+export const trackedVariantField = StateField.define<TrackedRange[]>({
+  create() {
+    return [];
+  },
+  update(ranges, transaction) {
+    if (ranges.length > 0 && transaction.docChanged) {
+      const mapped: TrackedRange[] = [];
+      for (const range of ranges) {
+        const from = transaction.changes.mapPos(range.from, 1);
+        const to = transaction.changes.mapPos(range.to, -1);
+        // Drop variants that were deleted
+        if (from < to) mapped.push({ from, to });
+      }
+      ranges = mapped;
+    }
+
+    // Ranges set in the same transaction already refer to the new document
+    for (const effect of transaction.effects) {
+      if (effect.is(setTrackedVariants)) {
+        ranges = effect.value;
+      }
+    }
+
+    return ranges;
+  }
+});
+
+/**
+ * Returns the tracked ranges of an editor in document order, empty if no variant is being edited
+ */
+export function getTrackedVariants(state: EditorState): TrackedRange[] {
+  return state.field(trackedVariantField, false) ?? [];
+}
+
+/**
+ * A replacement of a range of the document
+ */
+export interface RangeChange {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+/**
+ * Builds a transaction that replaces every tracked range with the same text
+ * and keeps tracking the replacements
+ * @param others Further changes in the same transaction, which must not overlap the tracked ranges
+ */
+export function replaceTrackedVariants(ranges: TrackedRange[], insert: string, others: RangeChange[] = []): TransactionSpec {
+  const changes = [
+    ...ranges.map(range => ({ from: range.from, to: range.to, insert, tracked: true })),
+    ...others.map(change => ({ ...change, tracked: false }))
+  ].sort((a, b) => a.from - b.from);
+
+  // Each replacement shifts the ranges after it by the difference in length
+  let shift = 0;
+  const replaced: TrackedRange[] = [];
+  for (const change of changes) {
+    const from = change.from + shift;
+    if (change.tracked) {
+      replaced.push({ from, to: from + change.insert.length });
+    }
+    shift += change.insert.length - (change.to - change.from);
+  }
+
+  return {
+    changes: changes.map(({ from, to, insert }) => ({ from, to, insert })),
+    effects: setTrackedVariants.of(replaced)
+  };
+}
@@ -0,0 +1,58 @@
+import { Variant, parseVariants, resolveVariants } from './variantSyntax';
+
+export type ContextScope = 'sentence' | 'paragraph';
+
+/**
+ * The text around a variant, with every other variant resolved to its active option
+ */
+export interface VariantContext {
+  before: string;
+  after: string;
+}
+
+// The end of a sentence: terminal punctuation, closing quotes or brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+
+/**
+ * Returns the sentence or paragraph around a variant
+ * Paragraphs end at blank lines, but never inside another variant, since block
+ * variants may contain blank lines of their own.
+ */
+export function getVariantContext(text: string, variant: Variant, scope: ContextScope): VariantContext {
+  const others = parseVariants(text).filter(v => v.from !== variant.from);
+
+  let start = text.lastIndexOf('\n\n', variant.from - 1);
+  start = start === -1 ? 0 : start + 2;
+  let end = text.indexOf('\n\n', variant.to);
+  end = end === -1 ? text.length : end;
+
+  // Move the boundaries out of any variant they fall into
+  for (const other of others) {
+    if (other.from < start && start < other.to) start = other.from;
+    if (other.from < end && end < other.to) end = other.to;
+  }
+
+  // Resolve first, so a sentence boundary never cuts through variant syntax
+  let before = resolveVariants(text.slice(start, variant.from)).text;
+  let after = resolveVariants(text.slice(variant.to, end)).text;
+
+  if (scope === 'sentence' && !variant.block) {
+    // Keep only what follows the last sentence end before the variant
+    let sentenceStart = 0;
+    let match: RegExpExecArray | null;
+    SENTENCE_END.lastIndex = 0;
+    while ((match = SENTENCE_END.exec(before)) !== null) {
+      sentenceStart = match.index + match[0].length;
+    }
+    before = before.slice(sentenceStart);
+
+    // And what comes before the first sentence end after it
+    SENTENCE_END.lastIndex = 0;
+    const next = SENTENCE_END.exec(after);
+    if (next) {
+      after = after.slice(0, next.index + next[0].trimEnd().length);
+    }
+  }
+
+  return { before, after };
+}
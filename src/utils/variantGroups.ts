@@ -0,0 +1,44 @@
+import { Variant } from './variantSyntax';
+
+/**
+ * Returns the group a variant belongs to, or null if it isn't linked to other variants
+ * Variants of the same group, written like {{Anna|Hanna}}^0{group=hero}, switch together.
+ */
+export function getVariantGroup(variant: Variant): string | null {
+  const group = variant.attributes.group?.trim();
+  return group ? group : null;
+}
+
+/**
+ * Returns the variants that belong to a group, in document order
+ */
+export function findGroupMembers(variants: Variant[], group: string): Variant[] {
+  return variants.filter(variant => getVariantGroup(variant) === group);
+}
+
+/**
+ * Wraps an option chooser so every member of a group gets the option chosen for its first member
+ * Keeps rules that pick per variant, such as a random option, consistent across a group.
+ */
+export function chooseByGroup(choose: (variant: Variant) => number): (variant: Variant) => number {
+  const chosen = new Map<string, number>();
+  return (variant) => {
+    const group = getVariantGroup(variant);
+    if (!group) return choose(variant);
+
+    if (!chosen.has(group)) {
+      chosen.set(group, choose(variant));
+    }
+    return chosen.get(group)!;
+  };
+}
+
+/**
+ * Returns a group name that no variant uses yet, for linking variants created together
+ */
+export function createGroupName(variants: Variant[]): string {
+  const used = new Set(variants.map(getVariantGroup));
+  let n = 1;
+  while (used.has(`linked-${n}`)) n++;
+  return `linked-${n}`;
+}
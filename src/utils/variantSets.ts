@@ -0,0 +1,74 @@
+import { Variant, VariantOption } from './variantSyntax';
+
+/**
+ * A change to the index of a variant, as offsets into the parsed text
+ */
+export interface IndexChange {
+  from: number;
+  to: number;
+  text: string;
+}
+
+/**
+ * Returns the names of the variant sets an option belongs to
+ * An option can be part of several sets, separated by commas: {set="formal, short"}
+ */
+export function getOptionSets(option: VariantOption): string[] {
+  return (option.attributes.set ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+}
+
+/**
+ * Returns the index of the first option of a variant in the given set, or -1 if there is none
+ */
+export function findSetOption(variant: Variant, set: string): number {
+  return variant.options.findIndex(option => getOptionSets(option).includes(set));
+}
+
+/**
+ * Counts in how many variants each set name appears
+ */
+export function collectVariantSets(variants: Variant[]): Map<string, number> {
+  const sets = new Map<string, number>();
+  for (const variant of variants) {
+    const names = new Set<string>();
+    variant.options.forEach(option => getOptionSets(option).forEach(name => names.add(name)));
+    names.forEach(name => sets.set(name, (sets.get(name) ?? 0) + 1));
+  }
+  return sets;
+}
+
+/**
+ * Lists the index changes that make a set active in every given variant
+ * Variants without an option in the set keep their current index
+ */
+export function getVariantSetChanges(variants: Variant[], set: string): IndexChange[] {
+  const changes: IndexChange[] = [];
+  for (const variant of variants) {
+    const index = findSetOption(variant, set);
+    if (index !== -1 && index !== variant.activeIndex) {
+      changes.push({ from: variant.indexFrom, to: variant.indexTo, text: index.toString() });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Makes a set active in the given variants of a text
+ * @returns The new text and the number of variants that changed
+ */
+export function applyVariantSet(text: string, variants: Variant[], set: string): { text: string; count: number } {
+  const changes = getVariantSetChanges(variants, set);
+
+  let result = '';
+  let lastIndex = 0;
+  for (const change of changes) {
+    result += text.slice(lastIndex, change.from) + change.text;
+    lastIndex = change.to;
+  }
+  result += text.slice(lastIndex);
+
+  return { text: result, count: changes.length };
+}
@@ -0,0 +1,482 @@
+/**
+ * Parser and serializer for the variant syntax: {{option1|option2|option3}}^INDEX
+ * The delimiters can be configured; the defaults are shown here.
+ *
+ * Options may contain any text. The delimiter characters `{`, `}` and `|` are
+ * written as `\{`, `\}` and `\|` inside an option, and a backslash that would
+ * otherwise be read as an escape is written as `\\`. Any other backslash is
+ * kept as-is, so plain text such as LaTeX commands round-trips unchanged.
+ *
+ * Options that span lines use the block form, where the delimiters sit on
+ * their own lines:
+ *
+ *   {{
+ *   First option
+ *   |
+ *   Second option
+ *   }}^INDEX
+ *
+ * An option can end with an attribute block that labels it, written like
+ * `{{Good day{set=formal}|Hey{set="very casual"}}}^0`. Values that contain
+ * spaces or quotes are quoted, with `\"` and `\\` as escapes inside the quotes.
+ * A `{` that would start an attribute block in the option text is written as `\{`.
+ *
+ * The whole variant can have an attribute block too, right after the index:
+ * `{{Anna|Hanna}}^0{group=hero}`.
+ */
+
+/**
+ * The delimiters that make up the variant syntax
+ */
+export interface VariantDelimiters {
+  open: string;
+  close: string;
+  separator: string;
+  indexMarker: string;
+}
+
+export const DEFAULT_DELIMITERS: VariantDelimiters = {
+  open: '{{',
+  close: '}}',
+  separator: '|',
+  indexMarker: '^'
+};
+
+const ESCAPE = '\\';
+
+// Attribute blocks are written in braces no matter which delimiters are used
+const ATTRIBUTES_OPEN = '{';
+const ATTRIBUTES_CLOSE = '}';
+const ATTRIBUTE_KEY = /[A-Za-z][\w-]*/y;
+const ATTRIBUTE_UNQUOTED_VALUE = /[^\s"{}\\=]+/y;
+
+// The delimiters used when none are passed explicitly, set from the plugin settings
+let activeDelimiters: VariantDelimiters = DEFAULT_DELIMITERS;
+
+export function getActiveDelimiters(): VariantDelimiters {
+  return activeDelimiters;
+}
+
+export function setActiveDelimiters(delimiters: VariantDelimiters): void {
+  activeDelimiters = { ...delimiters };
+}
+
+/**
+ * Checks that a set of delimiters can be parsed unambiguously
+ * @returns A description of the problem, or null if the delimiters are usable
+ */
+export function validateDelimiters(delimiters: VariantDelimiters): string | null {
+  const { open, close, separator, indexMarker } = delimiters;
+  if (!open || !close || !separator || !indexMarker) {
+    return 'Delimiters can\'t be empty';
+  }
+  if ([open, close, separator, indexMarker].some(d => d.includes(ESCAPE) || /\s/.test(d))) {
+    return 'Delimiters can\'t contain backslashes or whitespace';
+  }
+  if (/\d/.test(indexMarker)) {
+    return 'The index marker can\'t contain digits';
+  }
+  if (separator === open || separator === close) {
+    return 'The separator must differ from the opening and closing delimiters';
+  }
+  return null;
+}
+
+/**
+ * Characters that are part of the syntax and must be escaped inside options
+ */
+function getDelimiterChars(delimiters: VariantDelimiters): string {
+  return Array.from(new Set(delimiters.open + delimiters.close + delimiters.separator)).join('');
+}
+
+/**
+ * Characters a backslash can escape inside options
+ */
+function getEscapableChars(delimiters: VariantDelimiters): string {
+  return getDelimiterChars(delimiters) + ATTRIBUTES_OPEN + ATTRIBUTES_CLOSE + ESCAPE;
+}
+
+/**
+ * Labels attached to an option, such as the variant set it belongs to
+ */
+export type VariantAttributes = Record<string, string>;
+
+/**
+ * A single option of a variant
+ * `from`/`to` cover the raw (escaped) source of the option's text, without its attributes
+ */
+export interface VariantOption {
+  text: string;
+  attributes: VariantAttributes;
+  from: number;
+  to: number;
+}
+
+/**
+ * A parsed variant with source ranges relative to the parsed text
+ * (shifted by the offset passed to the parser)
+ */
+export interface Variant {
+  from: number;
+  to: number;
+  options: VariantOption[];
+  activeIndex: number;
+  // Range of the index digits after the index marker
+  indexFrom: number;
+  indexTo: number;
+  // The raw source of the whole variant
+  raw: string;
+  // Whether the variant uses the multi-line block form
+  block: boolean;
+  // The attributes of the whole variant, written after the index
+  attributes: VariantAttributes;
+}
+
+/**
+ * Tries to parse an attribute block starting exactly at `start`
+ * @returns The attributes and the position after the block, or null if there is no valid block
+ */
+function parseAttributes(text: string, start: number): { attributes: VariantAttributes; end: number } | null {
+  if (text[start] !== ATTRIBUTES_OPEN) return null;
+
+  const attributes: VariantAttributes = {};
+  let i = start + 1;
+  let count = 0;
+
+  const match = (pattern: RegExp): string | null => {
+    pattern.lastIndex = i;
+    const result = pattern.exec(text);
+    return result ? result[0] : null;
+  };
+
+  while (i < text.length) {
+    while (text[i] === ' ' || text[i] === '\t') i++;
+
+    if (text[i] === ATTRIBUTES_CLOSE) {
+      return count > 0 ? { attributes, end: i + 1 } : null;
+    }
+    // Attributes need a space between them
+    if (count > 0 && text[i - 1] !== ' ' && text[i - 1] !== '\t') return null;
+
+    const key = match(ATTRIBUTE_KEY);
+    if (!key) return null;
+    i += key.length;
+    if (text[i] !== '=') return null;
+    i++;
+
+    let value = '';
+    if (text[i] === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\n') return null;
+        if (text[i] === ESCAPE && (text[i + 1] === '"' || text[i + 1] === ESCAPE)) i++;
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) return null;
+      i++;
+    } else {
+      const unquoted = match(ATTRIBUTE_UNQUOTED_VALUE);
+      if (!unquoted) return null;
+      value = unquoted;
+      i += unquoted.length;
+    }
+
+    attributes[key] = value;
+    count++;
+  }
+
+  return null;
+}
+
+/**
+ * Builds the attribute block for an option, or an empty string if it has no attributes
+ */
+export function serializeAttributes(attributes: VariantAttributes = {}): string {
+  const keys = Object.keys(attributes).filter(key => /^[A-Za-z][\w-]*$/.test(key));
+  if (keys.length === 0) return '';
+
+  const pairs = keys.map(key => {
+    const value = attributes[key].replace(/\n/g, ' ');
+    if (/^[^\s"{}\\=]+$/.test(value)) return `${key}=${value}`;
+    return `${key}="${value.replace(/["\\]/g, ch => ESCAPE + ch)}"`;
+  });
+  return `${ATTRIBUTES_OPEN}${pairs.join(' ')}${ATTRIBUTES_CLOSE}`;
+}
+
+/**
+ * Escapes an option so it can be embedded in the variant syntax
+ */
+export function escapeOption(text: string, delimiters: VariantDelimiters = activeDelimiters): string {
+  const delimiterChars = getDelimiterChars(delimiters);
+  const escapableChars = getEscapableChars(delimiters);
+
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (delimiterChars.includes(ch) || (ch === ATTRIBUTES_OPEN && parseAttributes(text, i))) {
+      result += ESCAPE + ch;
+    } else if (ch === ESCAPE && (i + 1 === text.length || escapableChars.includes(text[i + 1]))) {
+      // Only escape a backslash when it would otherwise be read as an escape
+      result += ESCAPE + ESCAPE;
+    } else {
+      result += ch;
+    }
+  }
+  return result;
+}
+
+/**
+ * Reverses escapeOption for the raw source of an option
+ */
+export function unescapeOption(raw: string, delimiters: VariantDelimiters = activeDelimiters): string {
+  const escapableChars = getEscapableChars(delimiters);
+
+  let result = '';
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] === ESCAPE && i + 1 < raw.length && escapableChars.includes(raw[i + 1])) {
+      i++;
+    }
+    result += raw[i];
+  }
+  return result;
+}
+
+/**
+ * Builds the variant syntax for a list of options
+ * @param block Use the block form even if every option fits on one line
+ * @param attributes The attributes of each option, by index
+ * @param variantAttributes The attributes of the whole variant, such as its group
+ */
+export function serializeVariant(
+  options: string[],
+  activeIndex: number,
+  delimiters: VariantDelimiters = activeDelimiters,
+  block: boolean = false,
+  attributes: VariantAttributes[] = [],
+  variantAttributes: VariantAttributes = {}
+): string {
+  const { open, close, separator, indexMarker } = delimiters;
+  const escaped = options.map((option, i) => escapeOption(option, delimiters) + serializeAttributes(attributes[i]));
+  const suffix = `${close}${indexMarker}${activeIndex}${serializeAttributes(variantAttributes)}`;
+
+  // Any option with a line break needs the block form
+  if (block || options.some(option => option.includes('\n'))) {
+    return `${open}\n${escaped.join(`\n${separator}\n`)}\n${suffix}`;
+  }
+
+  return `${open}${escaped.join(separator)}${suffix}`;
+}
+
+/**
+ * Returns the active option of a variant, or null if the index is out of range
+ */
+export function getActiveOption(variant: Variant): VariantOption | null {
+  return variant.options[variant.activeIndex] ?? null;
+}
+
+/**
+ * Tries to parse a variant starting exactly at `start`
+ */
+function parseVariantFrom(text: string, start: number, offset: number, delimiters: VariantDelimiters): Variant | null {
+  const { open, close, separator, indexMarker } = delimiters;
+  const delimiterChars = getDelimiterChars(delimiters);
+  const escapableChars = getEscapableChars(delimiters);
+
+  const options: VariantOption[] = [];
+  // An opening delimiter followed by a line break starts a block variant
+  const block = text[start + open.length] === '\n';
+  let optionStart = start + open.length + (block ? 1 : 0);
+  let i = optionStart;
+  // The attributes of the current option and where its text ends
+  let attributes: VariantAttributes = {};
+  let textEnd: number | null = null;
+
+  const pushOption = (end: number) => {
+    const to = textEnd ?? end;
+    options.push({ text: unescapeOption(text.slice(optionStart, to), delimiters), attributes, from: offset + optionStart, to: offset + to });
+    attributes = {};
+    textEnd = null;
+  };
+
+  // Whether a delimiter that ends the current option starts at `pos`
+  const isOptionEnd = (pos: number) => block
+    ? text[pos] === '\n' && (text.startsWith(close, pos + 1) || text.startsWith(separator + '\n', pos + 1))
+    : text.startsWith(close, pos) || text.startsWith(separator, pos);
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === ESCAPE && i + 1 < text.length && escapableChars.includes(text[i + 1])) {
+      i += 2;
+      continue;
+    }
+
+    // An attribute block is only recognized at the very end of an option
+    if (ch === ATTRIBUTES_OPEN) {
+      const parsed = parseAttributes(text, i);
+      if (parsed && isOptionEnd(parsed.end)) {
+        attributes = parsed.attributes;
+        textEnd = i;
+        i = parsed.end;
+        continue;
+      }
+    }
+
+    // Inline variants never span lines
+    if (ch === '\n' && !block) return null;
+
+    // Block delimiters only count at the start of a line; the line break
+    // before them belongs to the syntax, not to the option
+    const atDelimiter = !block || text[i - 1] === '\n';
+
+    if (atDelimiter && text.startsWith(close, i)) {
+      pushOption(block ? Math.max(optionStart, i - 1) : i);
+      i += close.length;
+
+      if (!text.startsWith(indexMarker, i)) return null;
+      i += indexMarker.length;
+
+      const indexFrom = i;
+      while (i < text.length && text[i] >= '0' && text[i] <= '9') i++;
+      if (i === indexFrom) return null;
+
+      const indexTo = i;
+
+      // Reject variants without any content, e.g. {{}}^0
+      if (options.every(option => option.text.length === 0)) return null;
+
+      const variantAttributes = parseAttributes(text, i);
+      if (variantAttributes) {
+        i = variantAttributes.end;
+      }
+
+      return {
+        from: offset + start,
+        to: offset + i,
+        options,
+        activeIndex: parseInt(text.slice(indexFrom, indexTo), 10),
+        indexFrom: offset + indexFrom,
+        indexTo: offset + indexTo,
+        raw: text.slice(start, i),
+        block,
+        attributes: variantAttributes?.attributes ?? {}
+      };
+    }
+
+    if (atDelimiter && text.startsWith(separator, i)) {
+      if (block) {
+        // A block separator must sit on a line of its own
+        if (text[i + separator.length] !== '\n') return null;
+        pushOption(Math.max(optionStart, i - 1));
+        i += separator.length + 1;
+      } else {
+        pushOption(i);
+        i += separator.length;
+      }
+      optionStart = i;
+      continue;
+    }
+
+    // An unescaped delimiter character that isn't part of a delimiter is invalid
+    if (delimiterChars.includes(ch)) return null;
+
+    i++;
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether the character at `pos` is preceded by an odd number of backslashes
+ */
+function isEscaped(text: string, pos: number): boolean {
+  let count = 0;
+  for (let i = pos - 1; i >= 0 && text[i] === ESCAPE; i--) count++;
+  return count % 2 === 1;
+}
+
+/**
+ * Finds all variants in a text
+ * @param text The text to scan
+ * @param offset Added to every source position, e.g. the document position of `text`
+ */
+export function parseVariants(
+  text: string,
+  offset: number = 0,
+  delimiters: VariantDelimiters = activeDelimiters
+): Variant[] {
+  const variants: Variant[] = [];
+  let pos = text.indexOf(delimiters.open);
+
+  while (pos !== -1) {
+    const variant = isEscaped(text, pos) ? null : parseVariantFrom(text, pos, offset, delimiters);
+    if (variant) {
+      variants.push(variant);
+      pos = text.indexOf(delimiters.open, variant.to - offset);
+    } else {
+      pos = text.indexOf(delimiters.open, pos + 1);
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Parses a text that consists of exactly one variant
+ */
+export function parseVariant(
+  text: string,
+  offset: number = 0,
+  delimiters: VariantDelimiters = activeDelimiters
+): Variant | null {
+  const variant = text.startsWith(delimiters.open) ? parseVariantFrom(text, 0, offset, delimiters) : null;
+  return variant && variant.raw.length === text.length ? variant : null;
+}
+
+/**
+ * Replaces every variant in a text with one of its options
+ * @param choose Picks the option index to keep; defaults to the active index.
+ * Variants whose chosen index is out of range are left untouched.
+ */
+export function resolveVariants(
+  text: string,
+  choose: (variant: Variant) => number = variant => variant.activeIndex,
+  delimiters: VariantDelimiters = activeDelimiters
+): { text: string; count: number } {
+  return resolveVariantList(text, parseVariants(text, 0, delimiters), choose);
+}
+
+/**
+ * Replaces the given variants of a text with the option chosen for each
+ * @param variants Variants of the text in document order, such as those outside code and math
+ * @param offset The offset of the text in the document the variant positions refer to
+ * @returns The resolved text and the number of variants replaced
+ */
+export function resolveVariantList(
+  text: string,
+  variants: Variant[],
+  choose: (variant: Variant) => number = variant => variant.activeIndex,
+  offset: number = 0
+): { text: string; count: number } {
+  let result = '';
+  let lastIndex = 0;
+  let count = 0;
+
+  for (const variant of variants) {
+    result += text.slice(lastIndex, variant.from - offset);
+
+    const option = variant.options[choose(variant)];
+    if (option) {
+      result += option.text;
+      count++;
+    } else {
+      result += variant.raw;
+    }
+
+    lastIndex = variant.to - offset;
+  }
+
+  result += text.slice(lastIndex);
+  return { text: result, count };
+}
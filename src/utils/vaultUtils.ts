@@ -0,0 +1,77 @@
+import { App, TFile, getFrontMatterInfo, normalizePath } from 'obsidian';
+import { Variant, VariantDelimiters, getActiveDelimiters } from './variantSyntax';
+import { parseMarkdownVariants } from './syntaxContext';
+
+/**
+ * A variant found in a note, with the 0-based line it starts on
+ */
+export interface VariantOccurrence {
+  variant: Variant;
+  line: number;
+}
+
+export interface FileVariants {
+  file: TFile;
+  content: string;
+  occurrences: VariantOccurrence[];
+}
+
+/**
+ * Returns the markdown files in a folder and its subfolders
+ * @param folderPath The folder to scan; an empty path or "/" means the whole vault
+ */
+export function getMarkdownFilesIn(app: App, folderPath: string): TFile[] {
+  const files = app.vault.getMarkdownFiles();
+  const folder = normalizePath(folderPath.trim());
+
+  if (!folderPath.trim() || folder === '/') {
+    return files;
+  }
+
+  return files.filter(file => file.path.startsWith(`${folder}/`));
+}
+
+/**
+ * Parses the variants in the body of a note, leaving out its frontmatter and any code or math
+ */
+export function parseNoteVariants(content: string, delimiters: VariantDelimiters = getActiveDelimiters()): Variant[] {
+  const bodyStart = getFrontMatterInfo(content).contentStart;
+  return parseMarkdownVariants(content.slice(bodyStart), bodyStart, delimiters);
+}
+
+/**
+ * Finds every variant in a note along with the line it starts on
+ */
+export function findVariantOccurrences(content: string): VariantOccurrence[] {
+  const occurrences: VariantOccurrence[] = [];
+  let line = 0;
+  let lastOffset = 0;
+
+  for (const variant of parseNoteVariants(content)) {
+    // Count line breaks incrementally since variants come in document order
+    for (let i = lastOffset; i < variant.from; i++) {
+      if (content[i] === '\n') line++;
+    }
+    lastOffset = variant.from;
+    occurrences.push({ variant, line });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Reads the given notes and returns the ones that contain variants
+ */
+export async function scanVariants(app: App, files: TFile[]): Promise<FileVariants[]> {
+  const results: FileVariants[] = [];
+
+  for (const file of files) {
+    const content = await app.vault.cachedRead(file);
+    const occurrences = findVariantOccurrences(content);
+    if (occurrences.length > 0) {
+      results.push({ file, content, occurrences });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,73 @@
+export type DiffPartType = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  text: string;
+  type: DiffPartType;
+}
+
+// Texts with more words than this are compared as a whole, to keep typing responsive
+const MAX_DIFF_WORDS = 1000;
+
+/**
+ * Splits a text into words and the whitespace between them, so joining the parts gives the text back
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+/**
+ * Compares two texts word by word
+ * @returns The parts of both texts in order: words only in `to` are added, words only in `from` are removed
+ */
+export function diffWords(from: string, to: string): DiffPart[] {
+  const a = tokenize(from);
+  const b = tokenize(to);
+
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    return from === to ? [{ text: to, type: 'same' }] : [{ text: from, type: 'removed' }, { text: to, type: 'added' }];
+  }
+
+  // Length of the longest common subsequence of a[i..] and b[j..]
+  const lengths: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = b.length; j >= 0; j--) {
+      if (i === a.length || j === b.length) {
+        lengths[i][j] = 0;
+      } else if (a[i] === b[j]) {
+        lengths[i][j] = lengths[i + 1][j + 1] + 1;
+      } else {
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, type: DiffPartType) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removed words come before the words that replace them
+      push(a[i], 'removed');
+      i++;
+    } else {
+      push(b[j], 'added');
+      j++;
+    }
+  }
+
+  return parts;
+}
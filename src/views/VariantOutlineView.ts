@@ -0,0 +1,204 @@
+import { ItemView, MarkdownView, WorkspaceLeaf, setTooltip } from 'obsidian';
+import type VariantEditor from '../main';
+import { VariantOccurrence, findVariantOccurrences } from '../utils/vaultUtils';
+import { getNoteLengths } from '../utils/textStats';
+import { previewText } from '../utils/preview';
+
+export const VIEW_TYPE_VARIANT_OUTLINE = 'variant-editor-outline';
+
+// Longest option text shown in the outline before it's cut off
+const MAX_PREVIEW_LENGTH = 60;
+
+/**
+ * Sidebar view listing every variant in the current note
+ * Clicking a variant jumps to it and opens the variant editor, and clicking
+ * one of its options makes that option active
+ */
+export class VariantOutlineView extends ItemView {
+    private plugin: VariantEditor;
+    // The note being outlined, which stays set while the outline itself has focus
+    private markdownView: MarkdownView | null = null;
+    private refreshTimeout: number | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: VariantEditor) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_VARIANT_OUTLINE;
+    }
+
+    getDisplayText(): string {
+        return 'Variant outline';
+    }
+
+    getIcon(): string {
+        return 'lucide-banana';
+    }
+
+    async onOpen() {
+        const recentView = this.app.workspace.getMostRecentLeaf()?.view;
+        this.markdownView = recentView instanceof MarkdownView ? recentView : null;
+
+        this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+            if (leaf?.view instanceof MarkdownView) {
+                this.markdownView = leaf.view;
+                this.refresh();
+            }
+        }));
+
+        this.registerEvent(this.app.workspace.on('editor-change', (editor, info) => {
+            if (info === this.markdownView) {
+                this.scheduleRefresh();
+            }
+        }));
+
+        // The outlined note may have been closed
+        this.registerEvent(this.app.workspace.on('layout-change', () => {
+            if (this.markdownView && !this.markdownView.file) {
+                this.markdownView = null;
+                this.refresh();
+            }
+        }));
+
+        this.refresh();
+    }
+
+    async onClose() {
+        if (this.refreshTimeout !== null) {
+            window.clearTimeout(this.refreshTimeout);
+        }
+    }
+
+    /**
+     * Refreshes the outline shortly after the note stops changing
+     */
+    private scheduleRefresh() {
+        if (this.refreshTimeout !== null) {
+            window.clearTimeout(this.refreshTimeout);
+        }
+        this.refreshTimeout = window.setTimeout(() => {
+            this.refreshTimeout = null;
+            this.refresh();
+        }, 300);
+    }
+
+    /**
+     * Returns the variants of the outlined note as they are right now
+     */
+    private getOccurrences(): VariantOccurrence[] {
+        if (!this.markdownView) return [];
+
+        // Leave out variants written in code or math, like the editor does
+        const editor = this.markdownView.editor;
+        const variantStarts = new Set(this.plugin.getEditorVariants(editor).map(variant => variant.from));
+        return findVariantOccurrences(editor.getValue()).filter(occurrence => variantStarts.has(occurrence.variant.from));
+    }
+
+    refresh() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('variant-outline');
+
+        if (!this.markdownView) {
+            container.createDiv({ cls: 'variant-outline-empty', text: 'Open a note to see its variants.' });
+            return;
+        }
+
+        const occurrences = this.getOccurrences();
+        if (occurrences.length === 0) {
+            container.createDiv({ cls: 'variant-outline-empty', text: 'No variants in this note.' });
+            return;
+        }
+
+        this.renderLengths(container);
+        occurrences.forEach((occurrence, position) => this.renderItem(container, occurrence, position));
+    }
+
+    /**
+     * Shows the word count of the note with the active options, and how far it can move
+     */
+    private renderLengths(container: HTMLElement) {
+        if (!this.markdownView) return;
+
+        const { active, original, shortest, longest } = getNoteLengths(this.markdownView.editor.getValue());
+        const difference = active - original;
+
+        const summary = container.createDiv({ cls: 'variant-outline-lengths' });
+        summary.createDiv({
+            cls: 'variant-outline-lengths-active',
+            text: `${active.toLocaleString()} word${active === 1 ? '' : 's'} with the active options`
+        });
+        summary.createDiv({
+            text: `${difference >= 0 ? '+' : ''}${difference.toLocaleString()} compared to the originals`
+        });
+        summary.createDiv({
+            text: `${shortest.toLocaleString()} to ${longest.toLocaleString()} words depending on the options`
+        });
+    }
+
+    private renderItem(container: HTMLElement, occurrence: VariantOccurrence, position: number) {
+        const { variant, line } = occurrence;
+        const activeOption = variant.options[variant.activeIndex];
+
+        const item = container.createDiv({ cls: 'variant-outline-item' });
+
+        const header = item.createDiv({ cls: 'variant-outline-header' });
+        header.createSpan({ cls: 'variant-outline-line', text: `${line + 1}` });
+        header.createSpan({
+            cls: 'variant-outline-active',
+            text: activeOption ? previewText(activeOption.text, MAX_PREVIEW_LENGTH) : `Invalid index ${variant.activeIndex}`
+        });
+        header.createSpan({
+            cls: 'variant-outline-count',
+            text: `${variant.options.length} option${variant.options.length === 1 ? '' : 's'}`
+        });
+        setTooltip(header, 'Edit variant', { placement: 'left' });
+        header.addEventListener('click', () => this.editVariant(position, variant.raw));
+
+        const optionsEl = item.createDiv({ cls: 'variant-outline-options' });
+        variant.options.forEach((option, index) => {
+            const optionEl = optionsEl.createDiv({
+                cls: 'variant-outline-option',
+                text: previewText(option.text, MAX_PREVIEW_LENGTH) || ' '
+            });
+            if (index === variant.activeIndex) {
+                optionEl.addClass('is-active');
+            }
+            optionEl.addEventListener('click', () => this.activateOption(position, variant.raw, index));
+        });
+    }
+
+    /**
+     * Looks up a listed variant again, in case the note changed since the outline was drawn
+     */
+    private findCurrent(position: number, raw: string) {
+        const occurrence = this.getOccurrences()[position];
+        if (!occurrence || occurrence.variant.raw !== raw) {
+            this.refresh();
+            return null;
+        }
+        return occurrence.variant;
+    }
+
+    private editVariant(position: number, raw: string) {
+        const view = this.markdownView;
+        const variant = this.findCurrent(position, raw);
+        if (!view || !variant) return;
+
+        // The variant editor works on the active note
+        this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+        this.plugin.selectVariant(view.editor, variant);
+        this.plugin.highlightSelection();
+    }
+
+    private activateOption(position: number, raw: string, index: number) {
+        const view = this.markdownView;
+        const variant = this.findCurrent(position, raw);
+        if (!view || !variant || variant.activeIndex === index) return;
+
+        this.plugin.setActiveOption(view.editor, variant, index);
+        this.refresh();
+    }
+}